@@ -4,6 +4,7 @@ import {
   Routes,
   Route,
   Navigate,
+  useLocation,
 } from "react-router-dom";
 import {
   ThemeProvider,
@@ -24,12 +25,21 @@ import PlanningBoard from "./pages/PlanningBoard";
 import Drivers from "./pages/Drivers";
 import AssignDriver from "./pages/AssignDriver";
 import DeliveryRoutes from "./pages/DeliveryRoutes";
+import Depots from "./pages/Depots";
+import MyRoute from "./pages/MyRoute";
+import Users from "./pages/Users";
+import Forbidden from "./pages/Forbidden";
 import { AuthProvider, useAuth } from "./context/AuthContext";
+import { DepotProvider } from "./context/DepotContext";
+import { VacationPolicyProvider } from "./context/VacationPolicyContext";
+import { Permission, getHomePath, hasPermission } from "./utils/permissions";
 
-const PrivateRoute: React.FC<{ children: React.ReactNode }> = ({
-  children,
-}) => {
-  const { isAuthenticated, loading } = useAuth();
+const PrivateRoute: React.FC<{
+  children: React.ReactNode;
+  permission?: Permission;
+}> = ({ children, permission }) => {
+  const { isAuthenticated, loading, user } = useAuth();
+  const location = useLocation();
 
   // Show loading spinner while checking authentication
   if (loading) {
@@ -45,9 +55,18 @@ const PrivateRoute: React.FC<{ children: React.ReactNode }> = ({
     );
   }
 
-  // Redirect to login if not authenticated
+  // Redirect to login if not authenticated, remembering the page to come
+  // back to
   if (!isAuthenticated) {
-    return <Navigate to="/login" replace />;
+    return <Navigate to="/login" replace state={{ from: location }} />;
+  }
+
+  if (permission && !hasPermission(user?.role, permission)) {
+    // Roles without a dashboard start on their own page instead
+    const homePath = getHomePath(user?.role);
+    return (
+      <Navigate to={location.pathname === "/" ? homePath : "/403"} replace />
+    );
   }
 
   // Render children if authenticated
@@ -60,111 +79,155 @@ const App: React.FC = () => {
       <CssBaseline />
 
       <AuthProvider>
-        <Router>
-          <Routes>
-            <Route path="/login" element={<Login />} />
-            <Route
-              path="/"
-              element={
-                <PrivateRoute>
-                  <Layout>
-                    <Dashboard />
-                  </Layout>
-                </PrivateRoute>
-              }
-            />
-            <Route
-              path="/customers"
-              element={
-                <PrivateRoute>
-                  <Layout>
-                    <Customers />
-                  </Layout>
-                </PrivateRoute>
-              }
-            />
-            <Route
-              path="/customers/:id"
-              element={
-                <PrivateRoute>
-                  <Layout>
-                    <CustomerDetails />
-                  </Layout>
-                </PrivateRoute>
-              }
-            />
-            <Route
-              path="/items"
-              element={
-                <PrivateRoute>
-                  <Layout>
-                    <Items />
-                  </Layout>
-                </PrivateRoute>
-              }
-            />
-            <Route
-              path="/orders"
-              element={
-                <PrivateRoute>
-                  <Layout>
-                    <Orders />
-                  </Layout>
-                </PrivateRoute>
-              }
-            />
-            <Route
-              path="/orders/:id"
-              element={
-                <PrivateRoute>
-                  <Layout>
-                    <OrderDetails />
-                  </Layout>
-                </PrivateRoute>
-              }
-            />
-            <Route
-              path="/planning"
-              element={
-                <PrivateRoute>
-                  <Layout>
-                    <PlanningBoard />
-                  </Layout>
-                </PrivateRoute>
-              }
-            />
-            <Route
-              path="/drivers"
-              element={
-                <PrivateRoute>
-                  <Layout>
-                    <Drivers />
-                  </Layout>
-                </PrivateRoute>
-              }
-            />
-            <Route
-              path="/assign-driver"
-              element={
-                <PrivateRoute>
-                  <Layout>
-                    <AssignDriver />
-                  </Layout>
-                </PrivateRoute>
-              }
-            />
-            <Route
-              path="/delivery-routes"
-              element={
-                <PrivateRoute>
-                  <Layout>
-                    <DeliveryRoutes />
-                  </Layout>
-                </PrivateRoute>
-              }
-            />
-          </Routes>
-        </Router>
+        <DepotProvider>
+          <VacationPolicyProvider>
+            <Router>
+              <Routes>
+                <Route path="/login" element={<Login />} />
+                <Route
+                  path="/403"
+                  element={
+                    <PrivateRoute>
+                      <Layout>
+                        <Forbidden />
+                      </Layout>
+                    </PrivateRoute>
+                  }
+                />
+                <Route
+                  path="/"
+                  element={
+                    <PrivateRoute permission={Permission.VIEW_DASHBOARD}>
+                      <Layout>
+                        <Dashboard />
+                      </Layout>
+                    </PrivateRoute>
+                  }
+                />
+                <Route
+                  path="/customers"
+                  element={
+                    <PrivateRoute permission={Permission.VIEW_CUSTOMERS}>
+                      <Layout>
+                        <Customers />
+                      </Layout>
+                    </PrivateRoute>
+                  }
+                />
+                <Route
+                  path="/customers/:id"
+                  element={
+                    <PrivateRoute permission={Permission.VIEW_CUSTOMERS}>
+                      <Layout>
+                        <CustomerDetails />
+                      </Layout>
+                    </PrivateRoute>
+                  }
+                />
+                <Route
+                  path="/items"
+                  element={
+                    <PrivateRoute permission={Permission.VIEW_ITEMS}>
+                      <Layout>
+                        <Items />
+                      </Layout>
+                    </PrivateRoute>
+                  }
+                />
+                <Route
+                  path="/orders"
+                  element={
+                    <PrivateRoute permission={Permission.VIEW_ORDERS}>
+                      <Layout>
+                        <Orders />
+                      </Layout>
+                    </PrivateRoute>
+                  }
+                />
+                <Route
+                  path="/orders/:id"
+                  element={
+                    <PrivateRoute permission={Permission.VIEW_ORDERS}>
+                      <Layout>
+                        <OrderDetails />
+                      </Layout>
+                    </PrivateRoute>
+                  }
+                />
+                <Route
+                  path="/planning"
+                  element={
+                    <PrivateRoute permission={Permission.PLAN_DELIVERIES}>
+                      <Layout>
+                        <PlanningBoard />
+                      </Layout>
+                    </PrivateRoute>
+                  }
+                />
+                <Route
+                  path="/drivers"
+                  element={
+                    <PrivateRoute permission={Permission.VIEW_DRIVERS}>
+                      <Layout>
+                        <Drivers />
+                      </Layout>
+                    </PrivateRoute>
+                  }
+                />
+                <Route
+                  path="/assign-driver"
+                  element={
+                    <PrivateRoute permission={Permission.PLAN_DELIVERIES}>
+                      <Layout>
+                        <AssignDriver />
+                      </Layout>
+                    </PrivateRoute>
+                  }
+                />
+                <Route
+                  path="/delivery-routes"
+                  element={
+                    <PrivateRoute permission={Permission.PLAN_DELIVERIES}>
+                      <Layout>
+                        <DeliveryRoutes />
+                      </Layout>
+                    </PrivateRoute>
+                  }
+                />
+                <Route
+                  path="/depots"
+                  element={
+                    <PrivateRoute permission={Permission.MANAGE_DEPOTS}>
+                      <Layout>
+                        <Depots />
+                      </Layout>
+                    </PrivateRoute>
+                  }
+                />
+                <Route
+                  path="/my-route"
+                  element={
+                    <PrivateRoute permission={Permission.VIEW_OWN_ROUTE}>
+                      <Layout>
+                        <MyRoute />
+                      </Layout>
+                    </PrivateRoute>
+                  }
+                />
+                <Route
+                  path="/users"
+                  element={
+                    <PrivateRoute permission={Permission.MANAGE_USERS}>
+                      <Layout>
+                        <Users />
+                      </Layout>
+                    </PrivateRoute>
+                  }
+                />
+              </Routes>
+            </Router>
+          </VacationPolicyProvider>
+        </DepotProvider>
       </AuthProvider>
     </ThemeProvider>
   );
@@ -0,0 +1,149 @@
+import React from "react";
+import { Box, List, ListItem, ListItemText, Typography } from "@mui/material";
+import {
+  getNextDelivery,
+  ScheduledOrder,
+  VacationPolicy,
+  VacationWindow,
+} from "../utils/vacation";
+import VacationChip from "./VacationChip";
+
+interface AssignListOrder extends ScheduledOrder {
+  _id: string;
+  orderNumber: string;
+  customer: VacationWindow & {
+    name: string;
+    customerNumber: string;
+    street: string;
+    houseNumber: string;
+    postalCode: string;
+    city: string;
+    email?: string;
+    mobileNumber?: string;
+  };
+}
+
+interface AssignOrderListProps {
+  orders: AssignListOrder[];
+  selectedIds: string[];
+  onToggle: (orderId: string) => void;
+  policy: VacationPolicy;
+  emptyText: string;
+}
+
+const AssignOrderList: React.FC<AssignOrderListProps> = ({
+  orders,
+  selectedIds,
+  onToggle,
+  policy,
+  emptyText,
+}) => {
+  if (orders.length === 0) {
+    return (
+      <Typography color="text.secondary" align="center" sx={{ py: 2 }}>
+        {emptyText}
+      </Typography>
+    );
+  }
+
+  return (
+    <List>
+      {orders.map((order) => {
+        const nextDelivery = getNextDelivery(order, new Date(), policy);
+        return (
+          <ListItem
+            key={order._id}
+            sx={{
+              mb: 1,
+              bgcolor: selectedIds.includes(order._id)
+                ? "action.selected"
+                : "background.paper",
+              borderRadius: 1,
+              boxShadow: 1,
+              cursor: "pointer",
+              "&:hover": {
+                bgcolor: "action.hover",
+              },
+            }}
+            onClick={() => onToggle(order._id)}
+          >
+            <ListItemText
+              primary={
+                <>
+                  <Typography variant="subtitle1" fontWeight="bold">
+                    Order #{order.orderNumber}
+                  </Typography>
+                  <Typography variant="subtitle2" color="primary">
+                    {order.customer.name}
+                  </Typography>
+                  <Typography variant="body2" color="text.secondary">
+                    {order.startDate && (
+                      <>
+                        <strong>Delivery:</strong>{" "}
+                        {new Date(order.startDate).toLocaleDateString("en-US", {
+                          weekday: "short",
+                          year: "numeric",
+                          month: "short",
+                          day: "numeric",
+                        })}
+                        {order.frequency && (
+                          <>
+                            {" "}
+                            •{" "}
+                            {order.frequency.charAt(0).toUpperCase() +
+                              order.frequency.slice(1)}
+                          </>
+                        )}
+                      </>
+                    )}
+                  </Typography>
+                  {nextDelivery?.vacation && (
+                    <Box sx={{ mt: 0.5 }}>
+                      <VacationChip
+                        outcome={nextDelivery.vacation}
+                        originalDate={nextDelivery.originalDate}
+                        date={nextDelivery.date}
+                      />
+                    </Box>
+                  )}
+                </>
+              }
+              secondary={
+                <>
+                  <Typography variant="body2" component="span" display="block">
+                    <strong>Address:</strong> {order.customer.street}{" "}
+                    {order.customer.houseNumber}, {order.customer.postalCode}{" "}
+                    {order.customer.city}
+                  </Typography>
+                  <Typography variant="body2" component="span" display="block">
+                    <strong>Customer #:</strong> {order.customer.customerNumber}
+                  </Typography>
+                  {order.customer.email && (
+                    <Typography
+                      variant="body2"
+                      component="span"
+                      display="block"
+                    >
+                      <strong>Email:</strong> {order.customer.email}
+                    </Typography>
+                  )}
+                  {order.customer.mobileNumber && (
+                    <Typography
+                      variant="body2"
+                      component="span"
+                      display="block"
+                    >
+                      <strong>Phone:</strong> {order.customer.mobileNumber}
+                    </Typography>
+                  )}
+                </>
+              }
+            />
+          </ListItem>
+        );
+      })}
+    </List>
+  );
+};
+
+export default AssignOrderList;
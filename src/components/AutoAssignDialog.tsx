@@ -0,0 +1,290 @@
+import React, { useState, useEffect, useMemo } from "react";
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  MenuItem,
+  Select,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Typography,
+} from "@mui/material";
+import { format } from "date-fns";
+import api from "../utils/axios";
+import { formatDistance } from "../utils/geo";
+import { VacationPolicy } from "../utils/vacation";
+import {
+  AssignableDriver,
+  AssignableOrder,
+  ProposalIssue,
+  proposeAssignments,
+} from "../utils/autoAssign";
+import { Depot } from "../types/depot";
+import { useDepots } from "../context/DepotContext";
+
+interface AutoAssignOrder extends AssignableOrder {
+  orderNumber: string;
+  customer: AssignableOrder["customer"] & { name: string; city: string };
+}
+
+interface AutoAssignDriver extends AssignableDriver {
+  name: string;
+  driverNumber: string;
+  homeDepot?: string | Depot | null;
+}
+
+interface AssignedOrder extends AssignableOrder {
+  assignedDriver?: string | { _id: string } | null;
+}
+
+interface AutoAssignDialogProps {
+  open: boolean;
+  orders: AutoAssignOrder[];
+  drivers: AutoAssignDriver[];
+  from: Date;
+  policy: VacationPolicy;
+  onClose: () => void;
+  onApplied: (count: number) => void;
+}
+
+const issueLabels: Record<ProposalIssue, string> = {
+  [ProposalIssue.NO_LOCATION]: "Customer has no coordinates",
+  [ProposalIssue.NO_DELIVERY]: "No upcoming delivery",
+  [ProposalIssue.NO_DRIVER]: "No available driver with capacity",
+};
+
+const getDriverId = (order: AssignedOrder) =>
+  typeof order.assignedDriver === "string"
+    ? order.assignedDriver
+    : order.assignedDriver?._id;
+
+const AutoAssignDialog: React.FC<AutoAssignDialogProps> = ({
+  open,
+  orders,
+  drivers,
+  from,
+  policy,
+  onClose,
+  onApplied,
+}) => {
+  const { getDepot } = useDepots();
+  const [assignedOrders, setAssignedOrders] = useState<AssignedOrder[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [applying, setApplying] = useState(false);
+  // Dispatcher's changes to the proposal, "" leaves the order unassigned
+  const [overrides, setOverrides] = useState<Record<string, string>>({});
+
+  // Existing stops of every driver are the anchors for proximity
+  useEffect(() => {
+    if (!open) return;
+
+    const fetchAssignedOrders = async () => {
+      try {
+        setLoading(true);
+        const response = await api.get<AssignedOrder[]>("/orders", {
+          params: { allOrders: true },
+        });
+        setAssignedOrders(response.data.filter(getDriverId));
+      } catch (error) {
+        // Error will be automatically shown by axios interceptor
+      } finally {
+        setLoading(false);
+      }
+    };
+    setOverrides({});
+    fetchAssignedOrders();
+  }, [open]);
+
+  const proposals = useMemo(() => {
+    if (!open || loading) return [];
+
+    const driverOrders: Record<string, AssignedOrder[]> = {};
+    assignedOrders.forEach((order) => {
+      const driverId = getDriverId(order)!;
+      (driverOrders[driverId] = driverOrders[driverId] || []).push(order);
+    });
+
+    return proposeAssignments(
+      orders,
+      drivers,
+      driverOrders,
+      (driver) => {
+        const depot = getDepot(driver.homeDepot);
+        return depot ? { lat: depot.latitude, lng: depot.longitude } : null;
+      },
+      from,
+      policy
+    );
+  }, [open, loading, assignedOrders, orders, drivers, getDepot, from, policy]);
+
+  const getChoice = (orderId: string, proposed: string | null) =>
+    orderId in overrides ? overrides[orderId] : proposed || "";
+
+  const assignments = proposals.reduce<Record<string, string[]>>(
+    (byDriver, proposal) => {
+      const driverId = getChoice(proposal.order._id, proposal.driverId);
+      if (driverId) {
+        (byDriver[driverId] = byDriver[driverId] || []).push(
+          proposal.order._id
+        );
+      }
+      return byDriver;
+    },
+    {}
+  );
+  const assignedCount = Object.values(assignments).reduce(
+    (sum, orderIds) => sum + orderIds.length,
+    0
+  );
+
+  const handleApply = async () => {
+    setApplying(true);
+    let applied = 0;
+    for (const [driverId, orderIds] of Object.entries(assignments)) {
+      try {
+        await api.post("/orders/assign-driver", { driverId, orderIds });
+        applied += orderIds.length;
+      } catch (error) {
+        // Error will be automatically shown by axios interceptor
+      }
+    }
+    setApplying(false);
+    onApplied(applied);
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="lg" fullWidth>
+      <DialogTitle>Auto-assign Orders</DialogTitle>
+      <DialogContent>
+        {loading ? (
+          <Box sx={{ display: "flex", justifyContent: "center", p: 4 }}>
+            <CircularProgress />
+          </Box>
+        ) : (
+          <>
+            <Alert severity="info" sx={{ mb: 2 }}>
+              Each order is proposed to the closest available driver with
+              capacity left on its next delivery day from{" "}
+              {format(from, "MMM d, yyyy")}. Review the proposal and change any
+              driver before applying.
+            </Alert>
+
+            <Box sx={{ display: "flex", flexWrap: "wrap", gap: 1, mb: 2 }}>
+              {drivers
+                .filter((driver) => assignments[driver._id])
+                .map((driver) => (
+                  <Chip
+                    key={driver._id}
+                    label={`${driver.name}: ${assignments[driver._id].length}`}
+                    color="primary"
+                    variant="outlined"
+                  />
+                ))}
+              <Chip
+                label={`Unassigned: ${proposals.length - assignedCount}`}
+                variant="outlined"
+              />
+            </Box>
+
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Order</TableCell>
+                  <TableCell>Customer</TableCell>
+                  <TableCell>Next Delivery</TableCell>
+                  <TableCell>Driver</TableCell>
+                  <TableCell>Distance</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {proposals.map((proposal) => {
+                  const { order } = proposal;
+                  const choice = getChoice(order._id, proposal.driverId);
+                  return (
+                    <TableRow key={order._id}>
+                      <TableCell>#{order.orderNumber}</TableCell>
+                      <TableCell>
+                        {order.customer.name}
+                        <Typography
+                          variant="caption"
+                          color="text.secondary"
+                          display="block"
+                        >
+                          {order.customer.city}
+                        </Typography>
+                      </TableCell>
+                      <TableCell>
+                        {proposal.date ? format(proposal.date, "MMM d") : "-"}
+                      </TableCell>
+                      <TableCell>
+                        <Select
+                          size="small"
+                          value={choice}
+                          displayEmpty
+                          onChange={(e) =>
+                            setOverrides((prev) => ({
+                              ...prev,
+                              [order._id]: e.target.value,
+                            }))
+                          }
+                          sx={{ minWidth: 200 }}
+                        >
+                          <MenuItem value="">
+                            <em>Leave unassigned</em>
+                          </MenuItem>
+                          {drivers.map((driver) => (
+                            <MenuItem key={driver._id} value={driver._id}>
+                              {driver.name} (#{driver.driverNumber})
+                            </MenuItem>
+                          ))}
+                        </Select>
+                        {proposal.issue && !choice && (
+                          <Typography
+                            variant="caption"
+                            color="warning.main"
+                            display="block"
+                          >
+                            {issueLabels[proposal.issue]}
+                          </Typography>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {proposal.distance !== null &&
+                        choice === proposal.driverId
+                          ? formatDistance(proposal.distance)
+                          : "-"}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={applying}>
+          Cancel
+        </Button>
+        <Button
+          onClick={handleApply}
+          variant="contained"
+          disabled={loading || applying || assignedCount === 0}
+        >
+          Apply {assignedCount} Assignment(s)
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default AutoAssignDialog;
@@ -0,0 +1,59 @@
+import React from "react";
+import { Box, LinearProgress, Typography } from "@mui/material";
+import {
+  CapacityUsage,
+  capacityMetricLabels,
+  formatUsage,
+} from "../utils/capacity";
+
+interface CapacityBarsProps {
+  usage: CapacityUsage[];
+  dense?: boolean;
+}
+
+const getColor = (ratio: number) => {
+  if (ratio > 1) return "error";
+  if (ratio >= 0.8) return "warning";
+  return "success";
+};
+
+const CapacityBars: React.FC<CapacityBarsProps> = ({ usage, dense }) => {
+  if (usage.length === 0) {
+    return dense ? null : (
+      <Typography variant="caption" color="text.secondary">
+        No capacity limits set
+      </Typography>
+    );
+  }
+
+  return (
+    <Box sx={{ display: "flex", flexDirection: "column", gap: 0.5 }}>
+      {usage.map(({ metric, used, limit }) => {
+        const ratio = used / limit;
+        return (
+          <Box key={metric}>
+            <Box sx={{ display: "flex", justifyContent: "space-between" }}>
+              <Typography variant="caption" color="text.secondary">
+                {capacityMetricLabels[metric]}
+              </Typography>
+              <Typography
+                variant="caption"
+                color={ratio > 1 ? "error" : "text.secondary"}
+              >
+                {formatUsage(metric, used)} / {formatUsage(metric, limit)}
+              </Typography>
+            </Box>
+            <LinearProgress
+              variant="determinate"
+              value={Math.min(ratio, 1) * 100}
+              color={getColor(ratio)}
+              sx={{ height: dense ? 4 : 6, borderRadius: 1 }}
+            />
+          </Box>
+        );
+      })}
+    </Box>
+  );
+};
+
+export default CapacityBars;
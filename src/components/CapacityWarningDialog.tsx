@@ -0,0 +1,69 @@
+import React from "react";
+import {
+  Alert,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  List,
+  ListItem,
+  ListItemText,
+} from "@mui/material";
+
+interface CapacityWarningDialogProps {
+  open: boolean;
+  driverName: string;
+  issues: string[];
+  // Blocked assignments can only be cancelled
+  blocked: boolean;
+  onCancel: () => void;
+  onConfirm: () => void;
+}
+
+const CapacityWarningDialog: React.FC<CapacityWarningDialogProps> = ({
+  open,
+  driverName,
+  issues,
+  blocked,
+  onCancel,
+  onConfirm,
+}) => (
+  <Dialog
+    open={open}
+    onClose={(_event, reason) => {
+      // Force an explicit decision, clicking outside must not dismiss it
+      if (reason !== "backdropClick") onCancel();
+    }}
+    maxWidth="sm"
+    fullWidth
+  >
+    <DialogTitle>Over Capacity</DialogTitle>
+    <DialogContent>
+      <Alert severity={blocked ? "error" : "warning"} sx={{ mb: 2 }}>
+        {blocked
+          ? `This assignment exceeds the capacity of ${driverName} and is not allowed.`
+          : `This assignment exceeds the capacity of ${driverName}.`}
+      </Alert>
+      <List dense>
+        {issues.map((issue) => (
+          <ListItem key={issue} disableGutters>
+            <ListItemText primary={issue} />
+          </ListItem>
+        ))}
+      </List>
+    </DialogContent>
+    <DialogActions>
+      <Button onClick={onCancel} autoFocus>
+        {blocked ? "Close" : "Cancel"}
+      </Button>
+      {!blocked && (
+        <Button onClick={onConfirm} color="error" variant="contained">
+          Assign Anyway
+        </Button>
+      )}
+    </DialogActions>
+  </Dialog>
+);
+
+export default CapacityWarningDialog;
@@ -0,0 +1,190 @@
+import React, { useState } from "react";
+import {
+  Box,
+  Chip,
+  Dialog,
+  DialogContent,
+  DialogTitle,
+  IconButton,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Tooltip,
+  Typography,
+} from "@mui/material";
+import {
+  Edit as EditIcon,
+  Draw as SignatureIcon,
+  Photo as PhotoIcon,
+} from "@mui/icons-material";
+import { format } from "date-fns";
+import { Delivery } from "../types/delivery";
+import { toLocalDay } from "../utils/recurrence";
+import {
+  deliveryStatusColors,
+  formatDeliveredItems,
+  formatDeliveryStatus,
+} from "../utils/delivery";
+
+interface DeliveryHistoryProps {
+  deliveries: Delivery[];
+  // Adds an order column, for histories spanning several orders
+  showOrder?: boolean;
+  onEdit?: (delivery: Delivery) => void;
+  onOrderClick?: (orderId: string) => void;
+}
+
+const DeliveryHistory: React.FC<DeliveryHistoryProps> = ({
+  deliveries,
+  showOrder = false,
+  onEdit,
+  onOrderClick,
+}) => {
+  const [proof, setProof] = useState<{ title: string; src: string } | null>(
+    null
+  );
+
+  if (deliveries.length === 0) {
+    return (
+      <Typography color="text.secondary">No deliveries recorded yet</Typography>
+    );
+  }
+
+  // Latest occurrence first
+  const sorted = [...deliveries].sort(
+    (a, b) =>
+      toLocalDay(b.scheduledDate).getTime() -
+      toLocalDay(a.scheduledDate).getTime()
+  );
+
+  return (
+    <>
+      <TableContainer>
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>Scheduled</TableCell>
+              {showOrder && <TableCell>Order</TableCell>}
+              <TableCell>Status</TableCell>
+              <TableCell>Time</TableCell>
+              <TableCell>Driver</TableCell>
+              <TableCell>Items Delivered</TableCell>
+              <TableCell>Notes</TableCell>
+              <TableCell align="right">Proof</TableCell>
+              {onEdit && <TableCell />}
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {sorted.map((delivery) => (
+              <TableRow key={delivery._id}>
+                <TableCell>
+                  {format(toLocalDay(delivery.scheduledDate), "MMM d, yyyy")}
+                </TableCell>
+                {showOrder && (
+                  <TableCell
+                    onClick={() => onOrderClick?.(delivery.order._id)}
+                    sx={onOrderClick ? { cursor: "pointer" } : undefined}
+                  >
+                    {delivery.order.orderNumber}
+                  </TableCell>
+                )}
+                <TableCell>
+                  <Chip
+                    label={formatDeliveryStatus(delivery.status)}
+                    color={deliveryStatusColors[delivery.status]}
+                    size="small"
+                  />
+                  {delivery.rescheduledTo && (
+                    <Typography variant="caption" display="block">
+                      to{" "}
+                      {format(
+                        toLocalDay(delivery.rescheduledTo),
+                        "MMM d, yyyy"
+                      )}
+                    </Typography>
+                  )}
+                </TableCell>
+                <TableCell>
+                  {format(new Date(delivery.deliveredAt), "MMM d, HH:mm")}
+                </TableCell>
+                <TableCell>{delivery.driver?.name || "-"}</TableCell>
+                <TableCell>
+                  {formatDeliveredItems(delivery.items) || "-"}
+                </TableCell>
+                <TableCell>
+                  {delivery.failureReason && (
+                    <Typography variant="body2" color="error">
+                      {delivery.failureReason}
+                    </Typography>
+                  )}
+                  {delivery.notes}
+                </TableCell>
+                <TableCell align="right">
+                  <Box sx={{ whiteSpace: "nowrap" }}>
+                    {delivery.signature && (
+                      <Tooltip title="Signature">
+                        <IconButton
+                          size="small"
+                          onClick={() =>
+                            setProof({
+                              title: "Signature",
+                              src: delivery.signature!,
+                            })
+                          }
+                        >
+                          <SignatureIcon fontSize="small" />
+                        </IconButton>
+                      </Tooltip>
+                    )}
+                    {delivery.photo && (
+                      <Tooltip title="Photo">
+                        <IconButton
+                          size="small"
+                          onClick={() =>
+                            setProof({ title: "Photo", src: delivery.photo! })
+                          }
+                        >
+                          <PhotoIcon fontSize="small" />
+                        </IconButton>
+                      </Tooltip>
+                    )}
+                  </Box>
+                </TableCell>
+                {onEdit && (
+                  <TableCell align="right">
+                    <IconButton
+                      size="small"
+                      color="primary"
+                      onClick={() => onEdit(delivery)}
+                    >
+                      <EditIcon fontSize="small" />
+                    </IconButton>
+                  </TableCell>
+                )}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </TableContainer>
+
+      <Dialog open={!!proof} onClose={() => setProof(null)} maxWidth="sm">
+        <DialogTitle>{proof?.title}</DialogTitle>
+        <DialogContent>
+          {proof && (
+            <Box
+              component="img"
+              src={proof.src}
+              alt={proof.title}
+              sx={{ maxWidth: "100%" }}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default DeliveryHistory;
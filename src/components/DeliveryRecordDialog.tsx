@@ -0,0 +1,420 @@
+import React, { useState, useEffect, useMemo, useRef } from "react";
+import {
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  MenuItem,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography,
+} from "@mui/material";
+import { PhotoCamera as PhotoIcon } from "@mui/icons-material";
+import { DatePicker } from "@mui/x-date-pickers/DatePicker";
+import { DateTimePicker } from "@mui/x-date-pickers/DateTimePicker";
+import { LocalizationProvider } from "@mui/x-date-pickers/LocalizationProvider";
+import { AdapterDateFns } from "@mui/x-date-pickers/AdapterDateFns";
+import { addDays, format, subDays } from "date-fns";
+import api from "../utils/axios";
+import {
+  RecurringSchedule,
+  getOccurrences,
+  toDateKey,
+  toLocalDay,
+} from "../utils/recurrence";
+import {
+  Delivery,
+  DeliveredItem,
+  DeliveryPayload,
+  DeliveryStatus,
+} from "../types/delivery";
+import { formatDeliveryStatus, readImageAsDataUrl } from "../utils/delivery";
+import SignaturePad from "./SignaturePad";
+
+interface RecordOrder extends RecurringSchedule {
+  _id: string;
+  orderNumber: string;
+  items: DeliveredItem[];
+  assignedDriver?: { _id: string } | null;
+}
+
+interface DriverOption {
+  _id: string;
+  name: string;
+  driverNumber: string;
+}
+
+interface DeliveryRecordDialogProps {
+  open: boolean;
+  order: RecordOrder | null;
+  // Set when an existing record is edited
+  delivery?: Delivery | null;
+  // Occurrences that already have a record, as yyyy-MM-dd keys
+  recordedDates?: string[];
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+// Occurrences offered for recording, around today
+const PAST_DAYS = 30;
+const FUTURE_DAYS = 7;
+
+const DeliveryRecordDialog: React.FC<DeliveryRecordDialogProps> = ({
+  open,
+  order,
+  delivery,
+  recordedDates = [],
+  onClose,
+  onSaved,
+}) => {
+  const [drivers, setDrivers] = useState<DriverOption[]>([]);
+  const [scheduledDate, setScheduledDate] = useState("");
+  const [status, setStatus] = useState(DeliveryStatus.DELIVERED);
+  const [deliveredAt, setDeliveredAt] = useState<Date | null>(new Date());
+  const [driverId, setDriverId] = useState("");
+  const [quantities, setQuantities] = useState<Record<string, number>>({});
+  const [notes, setNotes] = useState("");
+  const [failureReason, setFailureReason] = useState("");
+  const [rescheduledTo, setRescheduledTo] = useState<Date | null>(null);
+  const [signature, setSignature] = useState<string | null>(null);
+  const [photo, setPhoto] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  // Only read when the dialog opens
+  const recordedDatesRef = useRef(recordedDates);
+  recordedDatesRef.current = recordedDates;
+
+  const occurrenceKeys = useMemo(() => {
+    if (!order) return [];
+    const today = new Date();
+    const keys = getOccurrences(
+      order,
+      subDays(today, PAST_DAYS),
+      addDays(today, FUTURE_DAYS)
+    ).map(toDateKey);
+    const editedKey = delivery && toDateKey(toLocalDay(delivery.scheduledDate));
+    return editedKey && !keys.includes(editedKey) ? [editedKey, ...keys] : keys;
+  }, [order, delivery]);
+
+  useEffect(() => {
+    if (!open) return;
+
+    const fetchDrivers = async () => {
+      try {
+        const response = await api.get<DriverOption[]>("/drivers");
+        setDrivers(response.data);
+      } catch (error) {
+        // Error will be automatically shown by axios interceptor
+      }
+    };
+    fetchDrivers();
+  }, [open]);
+
+  useEffect(() => {
+    if (!open || !order) return;
+
+    if (delivery) {
+      setScheduledDate(toDateKey(toLocalDay(delivery.scheduledDate)));
+      setStatus(delivery.status);
+      setDeliveredAt(new Date(delivery.deliveredAt));
+      setDriverId(delivery.driver?._id || "");
+      setQuantities(
+        Object.fromEntries(
+          delivery.items.map(({ item, quantity }) => [item._id, quantity])
+        )
+      );
+      setNotes(delivery.notes || "");
+      setFailureReason(delivery.failureReason || "");
+      setRescheduledTo(
+        delivery.rescheduledTo ? toLocalDay(delivery.rescheduledTo) : null
+      );
+      setSignature(delivery.signature || null);
+      setPhoto(delivery.photo || null);
+      return;
+    }
+
+    // Default to the latest occurrence up to today without a record
+    const todayKey = toDateKey(new Date());
+    const unrecorded = occurrenceKeys.filter(
+      (key) => !recordedDatesRef.current.includes(key)
+    );
+    const past = unrecorded.filter((key) => key <= todayKey);
+    setScheduledDate(past[past.length - 1] || unrecorded[0] || "");
+    setStatus(DeliveryStatus.DELIVERED);
+    setDeliveredAt(new Date());
+    setDriverId(order.assignedDriver?._id || "");
+    setQuantities(
+      Object.fromEntries(
+        order.items.map(({ item, quantity }) => [item._id, quantity])
+      )
+    );
+    setNotes("");
+    setFailureReason("");
+    setRescheduledTo(null);
+    setSignature(null);
+    setPhoto(null);
+  }, [open, order, delivery, occurrenceKeys]);
+
+  const handlePhotoChange = async (
+    event: React.ChangeEvent<HTMLInputElement>
+  ) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    try {
+      setPhoto(await readImageAsDataUrl(file));
+    } catch (error) {
+      setPhoto(null);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!order || !scheduledDate || !deliveredAt) return;
+
+    const payload: DeliveryPayload = {
+      order: order._id,
+      scheduledDate,
+      status,
+      deliveredAt: deliveredAt.toISOString(),
+      driver: driverId || null,
+      items:
+        status === DeliveryStatus.DELIVERED
+          ? order.items.map(({ item }) => ({
+              item: item._id,
+              quantity: quantities[item._id] || 0,
+            }))
+          : [],
+      notes: notes.trim(),
+      failureReason:
+        status === DeliveryStatus.FAILED ? failureReason.trim() : "",
+      rescheduledTo:
+        status === DeliveryStatus.RESCHEDULED && rescheduledTo
+          ? format(rescheduledTo, "yyyy-MM-dd")
+          : null,
+      signature,
+      photo,
+    };
+
+    setSaving(true);
+    try {
+      if (delivery) {
+        await api.patch(`/deliveries/${delivery._id}`, payload);
+      } else {
+        await api.post("/deliveries", payload);
+      }
+      onSaved();
+    } catch (error) {
+      // Error will be automatically shown by axios interceptor
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const incomplete =
+    !scheduledDate ||
+    !deliveredAt ||
+    (status === DeliveryStatus.FAILED && !failureReason.trim()) ||
+    (status === DeliveryStatus.RESCHEDULED && !rescheduledTo);
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>
+        {delivery ? "Edit" : "Record"} Delivery for Order #{order?.orderNumber}
+      </DialogTitle>
+      <DialogContent>
+        <LocalizationProvider dateAdapter={AdapterDateFns}>
+          <Box
+            sx={{
+              display: "grid",
+              gridTemplateColumns: "repeat(2, 1fr)",
+              gap: 2,
+              mt: 1,
+            }}
+          >
+            <TextField
+              select
+              label="Scheduled Delivery"
+              value={scheduledDate}
+              onChange={(e) => setScheduledDate(e.target.value)}
+              disabled={!!delivery}
+              required
+            >
+              {occurrenceKeys.map((key) => (
+                <MenuItem key={key} value={key}>
+                  {format(toLocalDay(key), "EEE, MMM d, yyyy")}
+                  {recordedDates.includes(key) && " (recorded)"}
+                </MenuItem>
+              ))}
+            </TextField>
+            <TextField
+              select
+              label="Status"
+              value={status}
+              onChange={(e) => setStatus(e.target.value as DeliveryStatus)}
+              required
+            >
+              {Object.values(DeliveryStatus).map((value) => (
+                <MenuItem key={value} value={value}>
+                  {formatDeliveryStatus(value)}
+                </MenuItem>
+              ))}
+            </TextField>
+            <DateTimePicker
+              label="Time"
+              value={deliveredAt}
+              onChange={(date) => setDeliveredAt(date)}
+              ampm={false}
+            />
+            <TextField
+              select
+              label="Driver"
+              value={driverId}
+              onChange={(e) => setDriverId(e.target.value)}
+            >
+              <MenuItem value="">
+                <em>None</em>
+              </MenuItem>
+              {drivers.map((driver) => (
+                <MenuItem key={driver._id} value={driver._id}>
+                  {driver.name} (#{driver.driverNumber})
+                </MenuItem>
+              ))}
+            </TextField>
+            {status === DeliveryStatus.FAILED && (
+              <TextField
+                label="Failure Reason"
+                value={failureReason}
+                onChange={(e) => setFailureReason(e.target.value)}
+                placeholder="e.g. nobody home, no access"
+                required
+                sx={{ gridColumn: "1 / -1" }}
+              />
+            )}
+            {status === DeliveryStatus.RESCHEDULED && (
+              <DatePicker
+                label="Rescheduled To"
+                value={rescheduledTo}
+                onChange={(date) => setRescheduledTo(date)}
+                slotProps={{ textField: { required: true } }}
+              />
+            )}
+          </Box>
+        </LocalizationProvider>
+
+        {status === DeliveryStatus.DELIVERED && order && (
+          <>
+            <Typography variant="subtitle1" sx={{ mt: 3 }}>
+              Items Delivered
+            </Typography>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Item</TableCell>
+                  <TableCell align="right">Ordered</TableCell>
+                  <TableCell align="right" sx={{ width: 140 }}>
+                    Delivered
+                  </TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {order.items.map(({ item, quantity }) => (
+                  <TableRow key={item._id}>
+                    <TableCell>
+                      {item.filterType} ({item.length}×{item.width}×{item.depth}{" "}
+                      {item.unitOfMeasure})
+                    </TableCell>
+                    <TableCell align="right">{quantity}</TableCell>
+                    <TableCell align="right">
+                      <TextField
+                        type="number"
+                        size="small"
+                        value={quantities[item._id] ?? 0}
+                        onChange={(e) =>
+                          setQuantities((prev) => ({
+                            ...prev,
+                            [item._id]: Math.max(0, Number(e.target.value)),
+                          }))
+                        }
+                        inputProps={{ min: 0 }}
+                      />
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </>
+        )}
+
+        <TextField
+          fullWidth
+          multiline
+          minRows={2}
+          label="Notes"
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+          sx={{ mt: 3 }}
+        />
+
+        <Box
+          sx={{
+            display: "grid",
+            gridTemplateColumns: "repeat(2, 1fr)",
+            gap: 2,
+            mt: 3,
+          }}
+        >
+          <Box>
+            <Typography variant="subtitle1">Signature</Typography>
+            {open && <SignaturePad value={signature} onChange={setSignature} />}
+          </Box>
+          <Box>
+            <Typography variant="subtitle1">Photo</Typography>
+            {photo && (
+              <Box
+                component="img"
+                src={photo}
+                alt="Delivery"
+                sx={{ width: "100%", maxHeight: 150, objectFit: "contain" }}
+              />
+            )}
+            <Box sx={{ display: "flex", gap: 1 }}>
+              <Button component="label" size="small" startIcon={<PhotoIcon />}>
+                {photo ? "Replace" : "Add Photo"}
+                <input
+                  type="file"
+                  accept="image/*"
+                  capture="environment"
+                  hidden
+                  onChange={handlePhotoChange}
+                />
+              </Button>
+              {photo && (
+                <Button size="small" onClick={() => setPhoto(null)}>
+                  Remove
+                </Button>
+              )}
+            </Box>
+          </Box>
+        </Box>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={saving}>
+          Cancel
+        </Button>
+        <Button
+          variant="contained"
+          onClick={handleSave}
+          disabled={saving || incomplete}
+        >
+          Save
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default DeliveryRecordDialog;
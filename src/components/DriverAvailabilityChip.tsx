@@ -0,0 +1,40 @@
+import React from "react";
+import { Chip } from "@mui/material";
+import { format } from "date-fns";
+import { DriverUnavailability, VacationWindow } from "../utils/vacation";
+import { toLocalDay } from "../utils/recurrence";
+
+interface DriverAvailabilityChipProps {
+  driver: VacationWindow;
+  unavailability: DriverUnavailability | null;
+}
+
+const DriverAvailabilityChip: React.FC<DriverAvailabilityChipProps> = ({
+  driver,
+  unavailability,
+}) => {
+  if (unavailability === DriverUnavailability.INACTIVE) {
+    return <Chip label="Inactive" size="small" color="error" />;
+  }
+
+  if (unavailability === DriverUnavailability.ON_VACATION) {
+    return (
+      <Chip
+        label={
+          driver.vacationEndDate
+            ? `On vacation until ${format(
+                toLocalDay(driver.vacationEndDate),
+                "MMM d"
+              )}`
+            : "On vacation"
+        }
+        size="small"
+        color="warning"
+      />
+    );
+  }
+
+  return null;
+};
+
+export default DriverAvailabilityChip;
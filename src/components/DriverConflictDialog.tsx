@@ -0,0 +1,98 @@
+import React from "react";
+import {
+  Alert,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  List,
+  ListItem,
+  ListItemText,
+} from "@mui/material";
+import { format } from "date-fns";
+import { DriverConflict } from "../utils/vacation";
+import { toLocalDay } from "../utils/recurrence";
+import { DriverStatus } from "./DriverFormDialog";
+
+interface ConflictDriver {
+  name: string;
+  status: string;
+  vacationStartDate?: string | null;
+  vacationEndDate?: string | null;
+}
+
+interface DriverConflictDialogProps {
+  open: boolean;
+  driver: ConflictDriver | null;
+  conflicts: DriverConflict<{ _id: string; orderNumber: string }>[];
+  onCancel: () => void;
+  onConfirm: () => void;
+}
+
+const formatDay = (value: string) => format(toLocalDay(value), "MMM d, yyyy");
+
+const DriverConflictDialog: React.FC<DriverConflictDialogProps> = ({
+  open,
+  driver,
+  conflicts,
+  onCancel,
+  onConfirm,
+}) => {
+  const describeDriver = () => {
+    if (!driver) return "";
+    if (driver.status === DriverStatus.INACTIVE) {
+      return `${driver.name} is inactive.`;
+    }
+    if (driver.vacationStartDate && driver.vacationEndDate) {
+      return `${driver.name} is on vacation from ${formatDay(
+        driver.vacationStartDate
+      )} to ${formatDay(driver.vacationEndDate)}.`;
+    }
+    return `${driver.name} is on vacation.`;
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onClose={(_event, reason) => {
+        // Force an explicit decision, clicking outside must not dismiss it
+        if (reason !== "backdropClick") onCancel();
+      }}
+      maxWidth="sm"
+      fullWidth
+    >
+      <DialogTitle>Driver Unavailable</DialogTitle>
+      <DialogContent>
+        <Alert severity="warning" sx={{ mb: 2 }}>
+          {describeDriver()} The following orders have deliveries the driver
+          cannot make.
+        </Alert>
+        <List dense>
+          {conflicts.map(({ order, dates }) => (
+            <ListItem key={order._id} disableGutters>
+              <ListItemText
+                primary={`Order #${order.orderNumber}`}
+                secondary={
+                  dates.length > 0
+                    ? dates.map((date) => format(date, "MMM d")).join(", ")
+                    : "No upcoming deliveries"
+                }
+              />
+            </ListItem>
+          ))}
+        </List>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onCancel} autoFocus>
+          Cancel
+        </Button>
+        <Button onClick={onConfirm} color="error" variant="contained">
+          Assign Anyway
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default DriverConflictDialog;
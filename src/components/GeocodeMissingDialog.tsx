@@ -0,0 +1,354 @@
+import React, { useState, useRef, useMemo } from "react";
+import {
+  Alert,
+  Box,
+  Button,
+  Checkbox,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  LinearProgress,
+  List,
+  ListItem,
+  ListItemText,
+  MenuItem,
+  Select,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Typography,
+} from "@mui/material";
+import api from "../utils/axios";
+import { Customer } from "../types/customer";
+import { useMapProvider } from "../hooks/useMapProvider";
+import { GeocodeConfidence } from "../maps";
+import {
+  GeocodeOutcome,
+  batchGeocode,
+  needsReview,
+} from "../maps/batchGeocode";
+
+type Step = "start" | "running" | "review" | "saving" | "done";
+
+interface Decision {
+  resultIndex: number;
+  accepted: boolean;
+}
+
+interface GeocodeMissingDialogProps {
+  open: boolean;
+  customers: Customer[];
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+const confidenceColors: Record<
+  GeocodeConfidence,
+  "success" | "warning" | "error"
+> = {
+  [GeocodeConfidence.HIGH]: "success",
+  [GeocodeConfidence.MEDIUM]: "warning",
+  [GeocodeConfidence.LOW]: "error",
+};
+
+const hasCoordinates = (customer: Customer) =>
+  !!customer.latitude && !!customer.longitude;
+
+const formatAddress = (customer: Customer) =>
+  `${customer.street} ${customer.houseNumber}, ${customer.postalCode} ${customer.city}`;
+
+const GeocodeMissingDialog: React.FC<GeocodeMissingDialogProps> = ({
+  open,
+  customers,
+  onClose,
+  onSaved,
+}) => {
+  const provider = useMapProvider();
+  const [step, setStep] = useState<Step>("start");
+  const [outcomes, setOutcomes] = useState<GeocodeOutcome<Customer>[]>([]);
+  const [decisions, setDecisions] = useState<Record<string, Decision>>({});
+  const [saveResult, setSaveResult] = useState({ saved: 0, failed: 0 });
+  const abortRef = useRef<AbortController | null>(null);
+
+  const missing = useMemo(
+    () => customers.filter((customer) => !hasCoordinates(customer)),
+    [customers]
+  );
+
+  const matched = outcomes
+    .filter((outcome) => outcome.results.length > 0)
+    // Matches that need a decision come first
+    .sort((a, b) => Number(needsReview(b)) - Number(needsReview(a)));
+  const failed = outcomes.filter((outcome) => outcome.results.length === 0);
+  const acceptedCount = Object.values(decisions).filter(
+    (decision) => decision.accepted
+  ).length;
+
+  const handleStart = async () => {
+    if (!provider) return;
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setOutcomes([]);
+    setDecisions({});
+    setStep("running");
+
+    await batchGeocode(
+      provider,
+      missing,
+      formatAddress,
+      (outcome) => {
+        setOutcomes((prev) => [...prev, outcome]);
+        if (outcome.results.length > 0) {
+          // Confident matches are accepted up front, the rest need review
+          setDecisions((prev) => ({
+            ...prev,
+            [outcome.item._id]: {
+              resultIndex: 0,
+              accepted: !needsReview(outcome),
+            },
+          }));
+        }
+      },
+      controller.signal
+    );
+    abortRef.current = null;
+    setStep("review");
+  };
+
+  const updateDecision = (id: string, update: Partial<Decision>) => {
+    setDecisions((prev) => ({ ...prev, [id]: { ...prev[id], ...update } }));
+  };
+
+  const handleSave = async () => {
+    setStep("saving");
+    let saved = 0;
+    let failedToSave = 0;
+
+    for (const outcome of matched) {
+      const decision = decisions[outcome.item._id];
+      if (!decision?.accepted) continue;
+
+      const { position } = outcome.results[decision.resultIndex];
+      try {
+        await api.patch(`/customers/${outcome.item._id}`, {
+          latitude: position.lat,
+          longitude: position.lng,
+        });
+        saved += 1;
+      } catch (error) {
+        // Error will be automatically shown by axios interceptor
+        failedToSave += 1;
+      }
+    }
+
+    setSaveResult({ saved, failed: failedToSave });
+    setStep("done");
+    onSaved();
+  };
+
+  const handleClose = () => {
+    if (step === "running" || step === "saving") return;
+    setStep("start");
+    setOutcomes([]);
+    setDecisions({});
+    onClose();
+  };
+
+  return (
+    <Dialog open={open} onClose={handleClose} maxWidth="md" fullWidth>
+      <DialogTitle>Geocode Missing Locations</DialogTitle>
+      <DialogContent>
+        {step === "start" && (
+          <Typography>
+            {missing.length === 0
+              ? "All customers already have coordinates."
+              : `${
+                  missing.length
+                } customer(s) have no coordinates and will be looked up by address${
+                  provider ? ` using ${provider.name}` : ""
+                }. Confident matches are accepted automatically, uncertain ones are shown for review before anything is saved.`}
+          </Typography>
+        )}
+
+        {step === "running" && (
+          <Box>
+            <Typography sx={{ mb: 1 }}>
+              Geocoding {outcomes.length} of {missing.length}...
+            </Typography>
+            <LinearProgress
+              variant="determinate"
+              value={(outcomes.length / missing.length) * 100}
+            />
+            {provider && (
+              <Typography
+                variant="caption"
+                color="text.secondary"
+                sx={{ display: "block", mt: 1 }}
+              >
+                Requests are spaced {provider.geocodeIntervalMs} ms apart to
+                respect the {provider.name} rate limit.
+              </Typography>
+            )}
+          </Box>
+        )}
+
+        {step === "review" && (
+          <Box>
+            {outcomes.length < missing.length && (
+              <Alert severity="info" sx={{ mb: 2 }}>
+                Stopped after {outcomes.length} of {missing.length} customers.
+              </Alert>
+            )}
+
+            {matched.length > 0 && (
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell padding="checkbox" />
+                    <TableCell>Customer</TableCell>
+                    <TableCell>Match</TableCell>
+                    <TableCell>Confidence</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {matched.map((outcome) => {
+                    const decision = decisions[outcome.item._id];
+                    const result = outcome.results[decision.resultIndex];
+                    return (
+                      <TableRow key={outcome.item._id}>
+                        <TableCell padding="checkbox">
+                          <Checkbox
+                            checked={decision.accepted}
+                            onChange={(e) =>
+                              updateDecision(outcome.item._id, {
+                                accepted: e.target.checked,
+                              })
+                            }
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <Typography variant="body2" fontWeight="bold">
+                            {outcome.item.name}
+                          </Typography>
+                          <Typography variant="caption" color="text.secondary">
+                            {outcome.address}
+                          </Typography>
+                        </TableCell>
+                        <TableCell>
+                          {outcome.results.length > 1 ? (
+                            <Select
+                              size="small"
+                              value={decision.resultIndex}
+                              onChange={(e) =>
+                                updateDecision(outcome.item._id, {
+                                  resultIndex: Number(e.target.value),
+                                })
+                              }
+                              sx={{ maxWidth: 320 }}
+                            >
+                              {outcome.results.map((candidate, index) => (
+                                <MenuItem key={index} value={index}>
+                                  {candidate.formattedAddress}
+                                </MenuItem>
+                              ))}
+                            </Select>
+                          ) : (
+                            <Typography variant="body2">
+                              {result.formattedAddress}
+                            </Typography>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <Chip
+                            label={result.confidence}
+                            size="small"
+                            color={confidenceColors[result.confidence]}
+                          />
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            )}
+
+            {failed.length > 0 && (
+              <Box sx={{ mt: 2 }}>
+                <Typography variant="subtitle1" color="error">
+                  Not found ({failed.length})
+                </Typography>
+                <List dense>
+                  {failed.map((outcome) => (
+                    <ListItem key={outcome.item._id} disableGutters>
+                      <ListItemText
+                        primary={`${outcome.item.name} (#${outcome.item.customerNumber})`}
+                        secondary={`${outcome.address}: ${outcome.error}`}
+                      />
+                    </ListItem>
+                  ))}
+                </List>
+                <Typography variant="caption" color="text.secondary">
+                  Check these addresses or set the location manually from the
+                  customer dialog.
+                </Typography>
+              </Box>
+            )}
+          </Box>
+        )}
+
+        {step === "saving" && <LinearProgress />}
+
+        {step === "done" && (
+          <Box>
+            <Alert severity={saveResult.failed > 0 ? "warning" : "success"}>
+              Saved coordinates for {saveResult.saved} customer(s)
+              {saveResult.failed > 0 &&
+                `, ${saveResult.failed} could not be saved`}
+              .
+            </Alert>
+            {failed.length > 0 && (
+              <Typography variant="body2" sx={{ mt: 2 }}>
+                {failed.length} customer(s) could not be geocoded:{" "}
+                {failed.map((outcome) => outcome.item.name).join(", ")}
+              </Typography>
+            )}
+          </Box>
+        )}
+      </DialogContent>
+      <DialogActions>
+        {step === "running" ? (
+          <Button onClick={() => abortRef.current?.abort()}>Stop</Button>
+        ) : (
+          <Button onClick={handleClose} disabled={step === "saving"}>
+            {step === "done" ? "Close" : "Cancel"}
+          </Button>
+        )}
+        {step === "start" && (
+          <Button
+            variant="contained"
+            onClick={handleStart}
+            disabled={!provider || missing.length === 0}
+          >
+            Start
+          </Button>
+        )}
+        {step === "review" && (
+          <Button
+            variant="contained"
+            onClick={handleSave}
+            disabled={acceptedCount === 0}
+          >
+            Save {acceptedCount} Location(s)
+          </Button>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default GeocodeMissingDialog;
@@ -28,8 +28,12 @@ import {
   DirectionsCar as DriverIcon,
   Assignment as AssignmentIcon,
   Route as RouteIcon,
+  Warehouse as DepotIcon,
+  LocalShipping as MyRouteIcon,
+  ManageAccounts as UsersIcon,
 } from "@mui/icons-material";
 import { useAuth } from "../context/AuthContext";
+import { usePermissions } from "../hooks/usePermissions";
 
 const drawerWidth = 240;
 
@@ -44,6 +48,7 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
   const navigate = useNavigate();
   const location = useLocation();
   const { logout } = useAuth();
+  const { canAccess } = usePermissions();
 
   const handleDrawerToggle = () => {
     setMobileOpen(!mobileOpen);
@@ -58,7 +63,10 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
     { text: "Assign Driver", icon: <AssignmentIcon />, path: "/assign-driver" },
     { text: "Planning", icon: <CalendarIcon />, path: "/planning" },
     { text: "Delivery Routes", icon: <RouteIcon />, path: "/delivery-routes" },
-  ];
+    { text: "Depots", icon: <DepotIcon />, path: "/depots" },
+    { text: "My Route Today", icon: <MyRouteIcon />, path: "/my-route" },
+    { text: "Users", icon: <UsersIcon />, path: "/users" },
+  ].filter((item) => canAccess(item.path));
 
   const drawer = (
     <div>
@@ -151,7 +159,7 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
         component="main"
         sx={{
           flexGrow: 1,
-          p: 3,
+          p: { xs: 2, sm: 3 },
           width: { sm: `calc(100% - ${drawerWidth}px)` },
           mt: "64px",
         }}
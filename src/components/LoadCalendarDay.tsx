@@ -0,0 +1,72 @@
+import React from "react";
+import { Badge, Tooltip, alpha } from "@mui/material";
+import { PickersDay, PickersDayProps } from "@mui/x-date-pickers/PickersDay";
+import { toDateKey } from "../utils/recurrence";
+import { DayLoad } from "../utils/planning";
+
+export interface LoadCalendarDayProps extends PickersDayProps {
+  loads?: Record<string, DayLoad>;
+  // Busiest day of the visible month, the heat is relative to it
+  maxTotal?: number;
+}
+
+/**
+ * Day slot for DateCalendar that shades each day by its number of
+ * deliveries and badges the scheduled and unassigned counts.
+ */
+const LoadCalendarDay: React.FC<LoadCalendarDayProps> = ({
+  loads,
+  maxTotal,
+  ...dayProps
+}) => {
+  const load = dayProps.outsideCurrentMonth
+    ? undefined
+    : loads?.[toDateKey(dayProps.day)];
+
+  if (!load || load.total === 0) {
+    return <PickersDay {...dayProps} />;
+  }
+
+  const heat = maxTotal ? load.total / maxTotal : 0;
+
+  return (
+    <Tooltip
+      title={`${load.total} scheduled, ${load.unassigned} unassigned`}
+      arrow
+    >
+      <Badge
+        overlap="circular"
+        color="error"
+        variant="dot"
+        invisible={load.unassigned === 0}
+        anchorOrigin={{ vertical: "bottom", horizontal: "right" }}
+      >
+        <Badge
+          overlap="circular"
+          color="primary"
+          badgeContent={load.total}
+          max={99}
+          sx={{
+            "& .MuiBadge-badge": {
+              fontSize: 9,
+              height: 14,
+              minWidth: 14,
+              px: 0.5,
+            },
+          }}
+        >
+          <PickersDay
+            {...dayProps}
+            sx={(theme) => ({
+              ...(!dayProps.selected && {
+                bgcolor: alpha(theme.palette.primary.main, 0.08 + heat * 0.4),
+              }),
+            })}
+          />
+        </Badge>
+      </Badge>
+    </Tooltip>
+  );
+};
+
+export default LoadCalendarDay;
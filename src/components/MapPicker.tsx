@@ -0,0 +1,205 @@
+import React, { useState, useCallback, useEffect, useRef } from "react";
+import {
+  Box,
+  TextField,
+  Button,
+  Typography,
+  Paper,
+  CircularProgress,
+} from "@mui/material";
+import { Search as SearchIcon } from "@mui/icons-material";
+import { useDepots } from "../context/DepotContext";
+import { useMap } from "../hooks/useMapProvider";
+import { LatLng, MapMarker } from "../maps";
+
+interface MapPickerProps {
+  latitude?: number;
+  longitude?: number;
+  onLocationChange: (lat: number, lng: number) => void;
+  address?: string;
+}
+
+const MapPicker: React.FC<MapPickerProps> = ({
+  latitude,
+  longitude,
+  onLocationChange,
+  address,
+}) => {
+  const { mapCenter: defaultCenter } = useDepots();
+  const [searchAddress, setSearchAddress] = useState(address || "");
+  const [loading, setLoading] = useState(false);
+  const [markerPosition, setMarkerPosition] = useState<LatLng>({
+    lat: latitude || defaultCenter.lat, // Default to the configured depot
+    lng: longitude || defaultCenter.lng,
+  });
+  const [marker, setMarker] = useState<MapMarker | null>(null);
+  const mapRef = useRef<HTMLDivElement | null>(null);
+  const { provider, map } = useMap(mapRef, markerPosition, 15);
+
+  // Listeners are registered once, so read the latest values from refs
+  const onLocationChangeRef = useRef(onLocationChange);
+  onLocationChangeRef.current = onLocationChange;
+  const markerPositionRef = useRef(markerPosition);
+  markerPositionRef.current = markerPosition;
+
+  useEffect(() => {
+    if (latitude && longitude) {
+      setMarkerPosition({ lat: latitude, lng: longitude });
+    }
+  }, [latitude, longitude]);
+
+  // Create the marker and map listeners once the map is ready
+  useEffect(() => {
+    if (!map) return;
+
+    const newMarker = map.addMarker({
+      position: markerPositionRef.current,
+      title: "Customer Location",
+      draggable: true,
+    });
+
+    const moveTo = (position: LatLng) => {
+      setMarkerPosition(position);
+      onLocationChangeRef.current(position.lat, position.lng);
+    };
+    map.onClick(moveTo);
+    newMarker.onDragEnd(moveTo);
+
+    setMarker(newMarker);
+    return () => newMarker.remove();
+  }, [map]);
+
+  // Keep the marker in sync with the position
+  useEffect(() => {
+    if (marker) {
+      marker.setPosition(markerPosition);
+    }
+  }, [markerPosition, marker]);
+
+  const geocodeAddress = useCallback(
+    async (address: string) => {
+      if (!provider || !address.trim()) return;
+
+      setLoading(true);
+      try {
+        const [result] = await provider.geocode(address);
+        if (result) {
+          setMarkerPosition(result.position);
+          map?.setCenter(result.position, 15);
+          onLocationChange(result.position.lat, result.position.lng);
+        }
+      } catch (error) {
+        console.error("Error geocoding address:", error);
+      } finally {
+        setLoading(false);
+      }
+    },
+    [provider, map, onLocationChange]
+  );
+
+  const handleSearch = useCallback(() => {
+    geocodeAddress(searchAddress);
+  }, [searchAddress, geocodeAddress]);
+
+  const handleKeyPress = useCallback(
+    (event: React.KeyboardEvent) => {
+      if (event.key === "Enter") {
+        handleSearch();
+      }
+    },
+    [handleSearch]
+  );
+
+  return (
+    <Box sx={{ width: "100%" }}>
+      <Box sx={{ display: "flex", gap: 1, mb: 2 }}>
+        <TextField
+          fullWidth
+          label="Search Address"
+          value={searchAddress}
+          onChange={(e) => setSearchAddress(e.target.value)}
+          onKeyPress={handleKeyPress}
+          placeholder="Enter address to search..."
+        />
+        <Button
+          variant="contained"
+          onClick={handleSearch}
+          disabled={loading || !provider || !searchAddress.trim()}
+          startIcon={loading ? <CircularProgress size={20} /> : <SearchIcon />}
+        >
+          Search
+        </Button>
+      </Box>
+
+      <Paper sx={{ height: 400, position: "relative", overflow: "hidden" }}>
+        <div
+          ref={mapRef}
+          style={{
+            height: "100%",
+            width: "100%",
+          }}
+        />
+        {!map && (
+          <Box
+            sx={{
+              position: "absolute",
+              top: 0,
+              left: 0,
+              right: 0,
+              bottom: 0,
+              display: "flex",
+              alignItems: "center",
+              justifyContent: "center",
+              backgroundColor: "rgba(255, 255, 255, 0.8)",
+            }}
+          >
+            <CircularProgress />
+          </Box>
+        )}
+      </Paper>
+
+      <Box sx={{ mt: 2, display: "flex", gap: 2 }}>
+        <TextField
+          label="Latitude"
+          type="number"
+          value={markerPosition.lat.toFixed(6)}
+          onChange={(e) => {
+            const lat = parseFloat(e.target.value);
+            if (!isNaN(lat)) {
+              setMarkerPosition((prev) => ({ ...prev, lat }));
+              onLocationChange(lat, markerPosition.lng);
+            }
+          }}
+          inputProps={{ step: 0.000001 }}
+          size="small"
+        />
+        <TextField
+          label="Longitude"
+          type="number"
+          value={markerPosition.lng.toFixed(6)}
+          onChange={(e) => {
+            const lng = parseFloat(e.target.value);
+            if (!isNaN(lng)) {
+              setMarkerPosition((prev) => ({ ...prev, lng }));
+              onLocationChange(markerPosition.lat, lng);
+            }
+          }}
+          inputProps={{ step: 0.000001 }}
+          size="small"
+        />
+      </Box>
+
+      <Typography
+        variant="caption"
+        color="text.secondary"
+        sx={{ mt: 1, display: "block" }}
+      >
+        Click on the map to set location, drag the marker, or search for an
+        address above
+        {provider && ` (${provider.name})`}
+      </Typography>
+    </Box>
+  );
+};
+
+export default MapPicker;
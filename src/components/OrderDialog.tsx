@@ -25,6 +25,8 @@ import {
   Frequency,
   VatRate,
 } from "../types/order";
+import { usePermissions } from "../hooks/usePermissions";
+import { Permission } from "../utils/permissions";
 
 interface OrderDialogProps {
   open: boolean;
@@ -45,6 +47,8 @@ const OrderDialog: React.FC<OrderDialogProps> = ({
   items,
   onAddCustomer,
 }) => {
+  const { can } = usePermissions();
+  const canEditPrices = can(Permission.EDIT_PRICES);
   const [formData, setFormData] = useState({
     customer: "",
     items: [] as OrderItem[],
@@ -277,6 +281,7 @@ const OrderDialog: React.FC<OrderDialogProps> = ({
                       type="number"
                       label="Unit Price"
                       value={item.unitPrice}
+                      disabled={!canEditPrices}
                       onChange={(e) =>
                         handleItemChange(
                           index,
@@ -288,7 +293,7 @@ const OrderDialog: React.FC<OrderDialogProps> = ({
                     />
                   </Box>
                   <Box sx={{ flex: "1 1 300px", minWidth: 0 }}>
-                    <FormControl fullWidth>
+                    <FormControl fullWidth disabled={!canEditPrices}>
                       <InputLabel>VAT Rate</InputLabel>
                       <Select
                         value={item.vatRate}
@@ -0,0 +1,118 @@
+import React from "react";
+import {
+  Box,
+  Button,
+  InputAdornment,
+  MenuItem,
+  TextField,
+} from "@mui/material";
+import { DatePicker } from "@mui/x-date-pickers/DatePicker";
+import { LocalizationProvider } from "@mui/x-date-pickers/LocalizationProvider";
+import { AdapterDateFns } from "@mui/x-date-pickers/AdapterDateFns";
+import { Search as SearchIcon } from "@mui/icons-material";
+import { Frequency, OrderStatus } from "../types/order";
+import {
+  OrderFilters,
+  countActiveFilters,
+  emptyOrderFilters,
+} from "../utils/orderFilters";
+
+interface OrderFilterBarProps {
+  filters: OrderFilters;
+  onChange: (filters: OrderFilters) => void;
+}
+
+const formatOption = (value: string) =>
+  value.replace("_", " ").replace(/^\w/, (char) => char.toUpperCase());
+
+const OrderFilterBar: React.FC<OrderFilterBarProps> = ({
+  filters,
+  onChange,
+}) => {
+  const update = (changes: Partial<OrderFilters>) =>
+    onChange({ ...filters, ...changes });
+
+  return (
+    <Box sx={{ display: "flex", flexWrap: "wrap", gap: 1, mb: 1 }}>
+      <TextField
+        size="small"
+        placeholder="Search order, customer, address..."
+        value={filters.search}
+        onChange={(e) => update({ search: e.target.value })}
+        InputProps={{
+          startAdornment: (
+            <InputAdornment position="start">
+              <SearchIcon />
+            </InputAdornment>
+          ),
+        }}
+        sx={{ flex: "1 1 100%" }}
+      />
+      <TextField
+        size="small"
+        label="Postal Code"
+        value={filters.postalCode}
+        onChange={(e) => update({ postalCode: e.target.value })}
+        sx={{ width: 120 }}
+      />
+      <TextField
+        size="small"
+        label="City"
+        value={filters.city}
+        onChange={(e) => update({ city: e.target.value })}
+        sx={{ width: 140 }}
+      />
+      <TextField
+        select
+        size="small"
+        label="Frequency"
+        value={filters.frequency}
+        onChange={(e) => update({ frequency: e.target.value })}
+        sx={{ width: 150 }}
+      >
+        <MenuItem value="">All</MenuItem>
+        {Object.values(Frequency).map((frequency) => (
+          <MenuItem key={frequency} value={frequency}>
+            {formatOption(frequency)}
+          </MenuItem>
+        ))}
+      </TextField>
+      <TextField
+        select
+        size="small"
+        label="Status"
+        value={filters.status}
+        onChange={(e) => update({ status: e.target.value })}
+        sx={{ width: 140 }}
+      >
+        <MenuItem value="">All</MenuItem>
+        {Object.values(OrderStatus).map((status) => (
+          <MenuItem key={status} value={status}>
+            {formatOption(status)}
+          </MenuItem>
+        ))}
+      </TextField>
+      <LocalizationProvider dateAdapter={AdapterDateFns}>
+        <DatePicker
+          label="Start from"
+          value={filters.startFrom}
+          onChange={(date) => update({ startFrom: date })}
+          slotProps={{ textField: { size: "small", sx: { width: 170 } } }}
+        />
+        <DatePicker
+          label="Start to"
+          value={filters.startTo}
+          onChange={(date) => update({ startTo: date })}
+          slotProps={{ textField: { size: "small", sx: { width: 170 } } }}
+        />
+      </LocalizationProvider>
+      {countActiveFilters(filters) > 0 && (
+        <Button size="small" onClick={() => onChange(emptyOrderFilters)}>
+          Clear Filters
+        </Button>
+      )}
+    </Box>
+  );
+};
+
+export default OrderFilterBar;
@@ -0,0 +1,137 @@
+import React, { useState } from "react";
+import {
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  TextField,
+} from "@mui/material";
+import {
+  PlayArrow as StartIcon,
+  Pause as PauseIcon,
+  Replay as ResumeIcon,
+  CheckCircle as CompleteIcon,
+  Cancel as CancelIcon,
+} from "@mui/icons-material";
+import { OrderStatus } from "../types/order";
+import {
+  OrderAction,
+  getAvailableActions,
+  orderTransitions,
+} from "../utils/orderStatus";
+
+interface OrderStatusActionsProps {
+  status: OrderStatus;
+  onAction: (action: OrderAction, reason?: string) => Promise<void>;
+}
+
+const actionIcons: Record<OrderAction, React.ReactElement> = {
+  [OrderAction.START]: <StartIcon />,
+  [OrderAction.PAUSE]: <PauseIcon />,
+  [OrderAction.RESUME]: <ResumeIcon />,
+  [OrderAction.COMPLETE]: <CompleteIcon />,
+  [OrderAction.CANCEL]: <CancelIcon />,
+};
+
+const actionColors = {
+  [OrderAction.START]: "primary",
+  [OrderAction.PAUSE]: "warning",
+  [OrderAction.RESUME]: "primary",
+  [OrderAction.COMPLETE]: "success",
+  [OrderAction.CANCEL]: "error",
+} as const;
+
+const OrderStatusActions: React.FC<OrderStatusActionsProps> = ({
+  status,
+  onAction,
+}) => {
+  const [reasonAction, setReasonAction] = useState<OrderAction | null>(null);
+  const [reason, setReason] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+
+  const runAction = async (action: OrderAction, actionReason?: string) => {
+    setSubmitting(true);
+    try {
+      await onAction(action, actionReason);
+      setReasonAction(null);
+    } catch (error) {
+      // Keep the reason dialog open so the action can be retried
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleClick = (action: OrderAction) => {
+    if (orderTransitions[action].requiresReason) {
+      setReason("");
+      setReasonAction(action);
+    } else {
+      runAction(action);
+    }
+  };
+
+  const actions = getAvailableActions(status);
+  if (actions.length === 0) return null;
+
+  return (
+    <>
+      <Box sx={{ display: "flex", gap: 1, flexWrap: "wrap" }}>
+        {actions.map((action) => (
+          <Button
+            key={action}
+            variant={action === OrderAction.CANCEL ? "outlined" : "contained"}
+            color={actionColors[action]}
+            startIcon={actionIcons[action]}
+            onClick={() => handleClick(action)}
+            disabled={submitting}
+          >
+            {orderTransitions[action].label}
+          </Button>
+        ))}
+      </Box>
+
+      <Dialog
+        open={reasonAction !== null}
+        onClose={() => setReasonAction(null)}
+        maxWidth="sm"
+        fullWidth
+      >
+        <DialogTitle>
+          {reasonAction && orderTransitions[reasonAction].label} Order
+        </DialogTitle>
+        <DialogContent>
+          <TextField
+            autoFocus
+            fullWidth
+            multiline
+            minRows={2}
+            label="Reason"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            sx={{ mt: 1 }}
+            required
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setReasonAction(null)} disabled={submitting}>
+            Back
+          </Button>
+          <Button
+            variant="contained"
+            color={reasonAction ? actionColors[reasonAction] : "primary"}
+            onClick={() =>
+              reasonAction && runAction(reasonAction, reason.trim())
+            }
+            disabled={submitting || !reason.trim()}
+          >
+            {reasonAction && orderTransitions[reasonAction].label}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </>
+  );
+};
+
+export default OrderStatusActions;
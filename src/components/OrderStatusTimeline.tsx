@@ -0,0 +1,170 @@
+import React from "react";
+import { Box, Chip, IconButton, Tooltip, Typography } from "@mui/material";
+import { Delete as DeleteIcon } from "@mui/icons-material";
+import { addDays, format, startOfDay } from "date-fns";
+import { ChangedBy, PauseWindow, StatusChange } from "../types/order";
+import { toLocalDay } from "../utils/recurrence";
+import { formatOrderStatus, orderStatusColors } from "../utils/orderStatus";
+
+interface OrderStatusTimelineProps {
+  history: StatusChange[];
+  pauseWindows?: PauseWindow[];
+  // Windows that have not ended yet can be removed
+  onRemovePause?: (pause: PauseWindow) => void;
+}
+
+interface TimelineEntry {
+  key: string;
+  date: Date;
+  // Whether `date` carries a time of day worth showing
+  withTime: boolean;
+  color: string;
+  title: React.ReactNode;
+  changedBy?: ChangedBy | null;
+  reason?: string;
+  action?: React.ReactNode;
+}
+
+const formatDay = (value: string) => format(toLocalDay(value), "MMM d, yyyy");
+
+const OrderStatusTimeline: React.FC<OrderStatusTimelineProps> = ({
+  history,
+  pauseWindows = [],
+  onRemovePause,
+}) => {
+  const today = startOfDay(new Date());
+
+  const statusEntries: TimelineEntry[] = history.map((change, index) => ({
+    key: `status-${change.changedAt}-${index}`,
+    date: new Date(change.changedAt),
+    withTime: true,
+    color: "primary.main",
+    title: (
+      <>
+        {change.from && (
+          <>
+            <Chip
+              label={formatOrderStatus(change.from)}
+              color={orderStatusColors[change.from]}
+              size="small"
+              variant="outlined"
+            />
+            <Typography color="text.secondary">→</Typography>
+          </>
+        )}
+        <Chip
+          label={formatOrderStatus(change.to)}
+          color={orderStatusColors[change.to]}
+          size="small"
+        />
+      </>
+    ),
+    changedBy: change.changedBy,
+    reason: change.reason,
+  }));
+
+  // Each pause shows up twice, when it was scheduled and when deliveries
+  // continue after it
+  const pauseEntries = pauseWindows.flatMap<TimelineEntry>((pause, index) => {
+    const resumeDate = addDays(toLocalDay(pause.to), 1);
+    const ended = resumeDate <= today;
+    return [
+      {
+        key: `pause-${pause._id || index}`,
+        date: pause.createdAt
+          ? new Date(pause.createdAt)
+          : toLocalDay(pause.from),
+        withTime: !!pause.createdAt,
+        color: "warning.main",
+        title: (
+          <Typography variant="body2" fontWeight="bold">
+            Deliveries paused from {formatDay(pause.from)} to{" "}
+            {formatDay(pause.to)}
+          </Typography>
+        ),
+        changedBy: pause.createdBy,
+        reason: pause.reason,
+        action: !ended && onRemovePause && (
+          <Tooltip title="Remove pause">
+            <IconButton size="small" onClick={() => onRemovePause(pause)}>
+              <DeleteIcon fontSize="small" />
+            </IconButton>
+          </Tooltip>
+        ),
+      },
+      {
+        key: `resume-${pause._id || index}`,
+        date: resumeDate,
+        withTime: false,
+        color: ended ? "success.main" : "grey.400",
+        title: (
+          <Typography variant="body2" fontWeight="bold">
+            {ended ? "Deliveries resumed" : "Deliveries resume"}
+          </Typography>
+        ),
+      },
+    ];
+  });
+
+  if (statusEntries.length === 0 && pauseEntries.length === 0) {
+    return (
+      <Typography color="text.secondary">
+        No status changes recorded yet
+      </Typography>
+    );
+  }
+
+  // Newest change first, upcoming resumes on top
+  const entries = [...statusEntries, ...pauseEntries].sort(
+    (a, b) => b.date.getTime() - a.date.getTime()
+  );
+
+  return (
+    <Box>
+      {entries.map((entry, index) => (
+        <Box
+          key={entry.key}
+          sx={{
+            position: "relative",
+            pl: 3,
+            pb: index < entries.length - 1 ? 2 : 0,
+            borderLeft: index < entries.length - 1 ? 2 : 0,
+            borderColor: "divider",
+            ml: 1,
+          }}
+        >
+          <Box
+            sx={{
+              position: "absolute",
+              left: -7,
+              top: 4,
+              width: 12,
+              height: 12,
+              borderRadius: "50%",
+              bgcolor: entry.color,
+            }}
+          />
+          <Box sx={{ display: "flex", alignItems: "center", gap: 1 }}>
+            {entry.title}
+            {entry.action}
+          </Box>
+          <Typography variant="body2" color="text.secondary" sx={{ mt: 0.5 }}>
+            {format(
+              entry.date,
+              entry.withTime ? "MMM d, yyyy HH:mm" : "MMM d, yyyy"
+            )}
+            {entry.changedBy &&
+              ` by ${entry.changedBy.firstName} ${entry.changedBy.lastName}`}
+          </Typography>
+          {entry.reason && (
+            <Typography variant="body2">
+              <strong>Reason:</strong> {entry.reason}
+            </Typography>
+          )}
+        </Box>
+      ))}
+    </Box>
+  );
+};
+
+export default OrderStatusTimeline;
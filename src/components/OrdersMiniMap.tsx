@@ -0,0 +1,88 @@
+import React, { useEffect, useMemo, useRef } from "react";
+import { Box, Typography } from "@mui/material";
+import { LatLng, MapMarker } from "../maps";
+import { useMap } from "../hooks/useMapProvider";
+import { useDepots } from "../context/DepotContext";
+
+interface MiniMapOrder {
+  _id: string;
+  orderNumber: string;
+  customer: {
+    name: string;
+    latitude?: number;
+    longitude?: number;
+  };
+}
+
+interface OrdersMiniMapProps {
+  orders: MiniMapOrder[];
+  selectedIds: string[];
+  onToggle: (orderId: string) => void;
+  height?: number;
+}
+
+const getPosition = (order: MiniMapOrder): LatLng | null =>
+  order.customer.latitude && order.customer.longitude
+    ? { lat: order.customer.latitude, lng: order.customer.longitude }
+    : null;
+
+// Shows the listed orders as small grey dots and the selected ones
+// highlighted, clicking a marker toggles the order's selection
+const OrdersMiniMap: React.FC<OrdersMiniMapProps> = ({
+  orders,
+  selectedIds,
+  onToggle,
+  height = 250,
+}) => {
+  const { mapCenter } = useDepots();
+  const containerRef = useRef<HTMLDivElement>(null);
+  const { map } = useMap(containerRef, mapCenter, 10);
+  const onToggleRef = useRef(onToggle);
+  onToggleRef.current = onToggle;
+
+  const located = useMemo(
+    () => orders.filter((order) => getPosition(order)),
+    [orders]
+  );
+  const selectedCount = orders.filter((order) =>
+    selectedIds.includes(order._id)
+  ).length;
+
+  useEffect(() => {
+    if (!map) return;
+
+    const markers: MapMarker[] = located.map((order) => {
+      const selected = selectedIds.includes(order._id);
+      const marker = map.addMarker({
+        position: getPosition(order)!,
+        title: `#${order.orderNumber} ${order.customer.name}`,
+        color: selected ? "#FF6B6B" : "#9E9E9E",
+        size: selected ? 16 : 10,
+      });
+      marker.onClick(() => onToggleRef.current(order._id));
+      return marker;
+    });
+    return () => markers.forEach((marker) => marker.remove());
+  }, [map, located, selectedIds]);
+
+  // Only refit when the listed orders change, not on every selection click
+  useEffect(() => {
+    if (!map || located.length === 0) return;
+    map.fitBounds(located.map((order) => getPosition(order)!));
+  }, [map, located]);
+
+  return (
+    <Box>
+      <Box
+        ref={containerRef}
+        sx={{ height, borderRadius: 1, overflow: "hidden" }}
+      />
+      <Typography variant="caption" color="text.secondary">
+        {selectedCount} selected, {orders.length - located.length} without
+        coordinates not shown
+      </Typography>
+    </Box>
+  );
+};
+
+export default OrdersMiniMap;
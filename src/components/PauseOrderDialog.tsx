@@ -0,0 +1,126 @@
+import React, { useState, useEffect } from "react";
+import {
+  Alert,
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  TextField,
+} from "@mui/material";
+import { DatePicker } from "@mui/x-date-pickers/DatePicker";
+import { LocalizationProvider } from "@mui/x-date-pickers/LocalizationProvider";
+import { AdapterDateFns } from "@mui/x-date-pickers/AdapterDateFns";
+import { addDays, format, startOfDay } from "date-fns";
+import api from "../utils/axios";
+
+interface PauseOrderDialogProps {
+  open: boolean;
+  order: { _id: string; orderNumber: string } | null;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+const PauseOrderDialog: React.FC<PauseOrderDialogProps> = ({
+  open,
+  order,
+  onClose,
+  onSaved,
+}) => {
+  const [from, setFrom] = useState<Date | null>(null);
+  const [to, setTo] = useState<Date | null>(null);
+  const [reason, setReason] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setFrom(startOfDay(new Date()));
+    setTo(null);
+    setReason("");
+  }, [open]);
+
+  const invalidRange = !!from && !!to && to < from;
+
+  const handleSave = async () => {
+    if (!order || !from || !to) return;
+
+    setSaving(true);
+    try {
+      await api.post(`/orders/${order._id}/pauses`, {
+        from: format(from, "yyyy-MM-dd"),
+        to: format(to, "yyyy-MM-dd"),
+        reason: reason.trim(),
+      });
+      onSaved();
+    } catch (error) {
+      // Error will be automatically shown by axios interceptor
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>
+        Pause Deliveries for Order #{order?.orderNumber}
+      </DialogTitle>
+      <DialogContent>
+        <LocalizationProvider dateAdapter={AdapterDateFns}>
+          <Box sx={{ display: "flex", gap: 2, mt: 1, mb: 2 }}>
+            <DatePicker
+              label="From"
+              value={from}
+              onChange={(date) => setFrom(date)}
+              slotProps={{ textField: { fullWidth: true, required: true } }}
+            />
+            <DatePicker
+              label="To"
+              value={to}
+              minDate={from || undefined}
+              onChange={(date) => setTo(date)}
+              slotProps={{
+                textField: {
+                  fullWidth: true,
+                  required: true,
+                  error: invalidRange,
+                },
+              }}
+            />
+          </Box>
+        </LocalizationProvider>
+        <TextField
+          fullWidth
+          multiline
+          minRows={2}
+          label="Reason"
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          required
+        />
+        {from && to && !invalidRange && (
+          <Alert severity="info" sx={{ mt: 2 }}>
+            No deliveries will be planned from {format(from, "MMM d, yyyy")} to{" "}
+            {format(to, "MMM d, yyyy")}. The order resumes automatically on{" "}
+            {format(addDays(to, 1), "MMM d, yyyy")}.
+          </Alert>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={saving}>
+          Cancel
+        </Button>
+        <Button
+          variant="contained"
+          color="warning"
+          onClick={handleSave}
+          disabled={saving || !from || !to || invalidRange || !reason.trim()}
+        >
+          Pause
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default PauseOrderDialog;
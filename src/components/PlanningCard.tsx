@@ -0,0 +1,71 @@
+import React from "react";
+import { Box, Paper, PaperProps, Typography } from "@mui/material";
+import { useSortable } from "@dnd-kit/sortable";
+import { CSS } from "@dnd-kit/utilities";
+import { VacationOutcome } from "../utils/vacation";
+import VacationChip from "./VacationChip";
+
+interface PlanningCardProps {
+  id: string;
+  orderNumber: string;
+  customerName: string;
+  vacation?: VacationOutcome;
+  originalDate: Date;
+}
+
+type PlanningCardContentProps = Omit<PlanningCardProps, "id"> & PaperProps;
+
+// Plain card, also rendered in the drag overlay where it must not register
+// as a second sortable item with the same id
+export const PlanningCardContent = React.forwardRef<
+  HTMLDivElement,
+  PlanningCardContentProps
+>(
+  (
+    { orderNumber, customerName, vacation, originalDate, sx, ...paperProps },
+    ref
+  ) => (
+    <Paper ref={ref} {...paperProps} sx={{ p: 1.5, mb: 1, ...sx }}>
+      <Typography variant="subtitle2">Order #{orderNumber}</Typography>
+      <Typography variant="body2" color="text.secondary">
+        {customerName}
+      </Typography>
+      {vacation && (
+        <Box sx={{ mt: 0.5 }}>
+          <VacationChip outcome={vacation} originalDate={originalDate} />
+        </Box>
+      )}
+    </Paper>
+  )
+);
+
+const PlanningCard: React.FC<PlanningCardProps> = ({ id, ...cardProps }) => {
+  // Skipped deliveries stay visible but cannot be planned
+  const skipped = cardProps.vacation === VacationOutcome.SKIPPED;
+  const {
+    attributes,
+    listeners,
+    setNodeRef,
+    transform,
+    transition,
+    isDragging,
+  } = useSortable({ id, disabled: skipped });
+
+  return (
+    <PlanningCardContent
+      ref={setNodeRef}
+      {...attributes}
+      {...listeners}
+      {...cardProps}
+      sx={{
+        cursor: skipped ? "default" : "grab",
+        opacity: isDragging ? 0.4 : skipped ? 0.6 : 1,
+        transform: CSS.Transform.toString(transform),
+        transition,
+        touchAction: "none",
+      }}
+    />
+  );
+};
+
+export default PlanningCard;
@@ -0,0 +1,72 @@
+import React from "react";
+import { Box, Paper, Typography } from "@mui/material";
+import { useDroppable } from "@dnd-kit/core";
+import {
+  SortableContext,
+  verticalListSortingStrategy,
+} from "@dnd-kit/sortable";
+
+interface PlanningColumnProps {
+  id: string;
+  title: string;
+  subtitle?: string;
+  // Shown under the title, e.g. availability and capacity
+  badge?: React.ReactNode;
+  itemIds: string[];
+  dimmed?: boolean;
+  children: React.ReactNode;
+}
+
+const PlanningColumn: React.FC<PlanningColumnProps> = ({
+  id,
+  title,
+  subtitle,
+  badge,
+  itemIds,
+  dimmed,
+  children,
+}) => {
+  const { setNodeRef, isOver } = useDroppable({ id });
+
+  return (
+    <Paper
+      variant="outlined"
+      sx={{
+        width: 260,
+        flexShrink: 0,
+        display: "flex",
+        flexDirection: "column",
+        bgcolor: isOver ? "action.hover" : "grey.50",
+        opacity: dimmed ? 0.7 : 1,
+      }}
+    >
+      <Box sx={{ p: 1.5, borderBottom: 1, borderColor: "divider" }}>
+        <Box sx={{ display: "flex", alignItems: "center", gap: 1 }}>
+          <Typography variant="subtitle1" fontWeight="bold" noWrap>
+            {title}
+          </Typography>
+          <Typography variant="body2" color="text.secondary">
+            ({itemIds.length})
+          </Typography>
+        </Box>
+        {subtitle && (
+          <Typography variant="caption" color="text.secondary">
+            {subtitle}
+          </Typography>
+        )}
+        {badge && <Box sx={{ mt: 0.5 }}>{badge}</Box>}
+      </Box>
+      <SortableContext
+        id={id}
+        items={itemIds}
+        strategy={verticalListSortingStrategy}
+      >
+        <Box ref={setNodeRef} sx={{ p: 1, flex: 1, minHeight: 120 }}>
+          {children}
+        </Box>
+      </SortableContext>
+    </Paper>
+  );
+};
+
+export default PlanningColumn;
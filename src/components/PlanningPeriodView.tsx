@@ -0,0 +1,184 @@
+import React, { useMemo } from "react";
+import { Box, Chip, IconButton, Paper, Typography } from "@mui/material";
+import {
+  ChevronLeft as PreviousIcon,
+  ChevronRight as NextIcon,
+} from "@mui/icons-material";
+import {
+  addMonths,
+  addWeeks,
+  eachDayOfInterval,
+  endOfMonth,
+  endOfWeek,
+  format,
+  isSameMonth,
+  isToday,
+  startOfMonth,
+  startOfWeek,
+} from "date-fns";
+import { toDateKey } from "../utils/recurrence";
+import { VacationPolicy } from "../utils/vacation";
+import {
+  PlannedOrder,
+  getDailyLoad,
+  getLoadLevel,
+  loadLevelColors,
+} from "../utils/planning";
+
+export type PeriodView = "week" | "month";
+
+interface PlanningPeriodViewProps {
+  view: PeriodView;
+  date: Date;
+  orders: PlannedOrder[];
+  drivers: { _id: string; name: string; maxStopsPerDay?: number | null }[];
+  policy: VacationPolicy;
+  onDateChange: (date: Date) => void;
+  onSelectDay: (date: Date) => void;
+}
+
+const WEEK_OPTIONS = { weekStartsOn: 1 as const };
+
+const PlanningPeriodView: React.FC<PlanningPeriodViewProps> = ({
+  view,
+  date,
+  orders,
+  drivers,
+  policy,
+  onDateChange,
+  onSelectDay,
+}) => {
+  // Month view always shows whole weeks
+  const [rangeStart, rangeEnd] = useMemo(
+    () =>
+      view === "week"
+        ? [startOfWeek(date, WEEK_OPTIONS), endOfWeek(date, WEEK_OPTIONS)]
+        : [
+            startOfWeek(startOfMonth(date), WEEK_OPTIONS),
+            endOfWeek(endOfMonth(date), WEEK_OPTIONS),
+          ],
+    [view, date]
+  );
+  const loads = useMemo(
+    () => getDailyLoad(orders, rangeStart, rangeEnd, policy),
+    [orders, rangeStart, rangeEnd, policy]
+  );
+  const days = eachDayOfInterval({ start: rangeStart, end: rangeEnd });
+
+  const step = (amount: number) =>
+    onDateChange(
+      view === "week" ? addWeeks(date, amount) : addMonths(date, amount)
+    );
+
+  return (
+    <Box>
+      <Box sx={{ display: "flex", alignItems: "center", gap: 1, mb: 2 }}>
+        <IconButton onClick={() => step(-1)} size="small">
+          <PreviousIcon />
+        </IconButton>
+        <Typography variant="h6" sx={{ minWidth: 220, textAlign: "center" }}>
+          {view === "week"
+            ? `${format(rangeStart, "MMM d")} – ${format(
+                rangeEnd,
+                "MMM d, yyyy"
+              )}`
+            : format(date, "MMMM yyyy")}
+        </Typography>
+        <IconButton onClick={() => step(1)} size="small">
+          <NextIcon />
+        </IconButton>
+      </Box>
+
+      <Box
+        sx={{
+          display: "grid",
+          gridTemplateColumns: "repeat(7, minmax(0, 1fr))",
+          gap: 1,
+        }}
+      >
+        {days.slice(0, 7).map((day) => (
+          <Typography
+            key={day.toISOString()}
+            variant="subtitle2"
+            color="text.secondary"
+            align="center"
+          >
+            {format(day, "EEE")}
+          </Typography>
+        ))}
+        {days.map((day) => {
+          const load = loads[toDateKey(day)];
+          const driverLoads = drivers.filter(
+            (driver) => load?.byDriver[driver._id]
+          );
+          return (
+            <Paper
+              key={day.toISOString()}
+              variant="outlined"
+              onClick={() => onSelectDay(day)}
+              sx={{
+                p: 1,
+                minHeight: view === "week" ? 240 : 110,
+                cursor: "pointer",
+                opacity: view === "month" && !isSameMonth(day, date) ? 0.5 : 1,
+                borderColor: isToday(day) ? "primary.main" : "divider",
+                "&:hover": { bgcolor: "action.hover" },
+              }}
+            >
+              <Box
+                sx={{
+                  display: "flex",
+                  justifyContent: "space-between",
+                  alignItems: "center",
+                  mb: 0.5,
+                }}
+              >
+                <Typography variant="subtitle2">
+                  {format(day, view === "week" ? "MMM d" : "d")}
+                </Typography>
+                {load && load.unassigned > 0 && (
+                  <Chip
+                    label={`${load.unassigned} unassigned`}
+                    size="small"
+                    color="error"
+                    variant="outlined"
+                  />
+                )}
+              </Box>
+              {driverLoads.map((driver) => {
+                const count = load.byDriver[driver._id];
+                return (
+                  <Box
+                    key={driver._id}
+                    sx={{
+                      display: "flex",
+                      justifyContent: "space-between",
+                      alignItems: "center",
+                      gap: 0.5,
+                      mb: 0.5,
+                    }}
+                  >
+                    <Typography variant="caption" noWrap>
+                      {driver.name}
+                    </Typography>
+                    <Chip
+                      label={count}
+                      size="small"
+                      color={
+                        loadLevelColors[
+                          getLoadLevel(count, driver.maxStopsPerDay)
+                        ]
+                      }
+                    />
+                  </Box>
+                );
+              })}
+            </Paper>
+          );
+        })}
+      </Box>
+    </Box>
+  );
+};
+
+export default PlanningPeriodView;
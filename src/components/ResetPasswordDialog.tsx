@@ -0,0 +1,104 @@
+import React, { useState, useEffect } from "react";
+import {
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  TextField,
+} from "@mui/material";
+import api from "../utils/axios";
+
+const MIN_PASSWORD_LENGTH = 8;
+
+interface ResetPasswordDialogProps {
+  open: boolean;
+  user: { _id: string; firstName: string; lastName: string } | null;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+const ResetPasswordDialog: React.FC<ResetPasswordDialogProps> = ({
+  open,
+  user,
+  onClose,
+  onSaved,
+}) => {
+  const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setPassword("");
+    setConfirmPassword("");
+  }, [open]);
+
+  const tooShort = !!password && password.length < MIN_PASSWORD_LENGTH;
+  const mismatch = !!confirmPassword && confirmPassword !== password;
+
+  const handleSave = async () => {
+    if (!user) return;
+
+    setSaving(true);
+    try {
+      await api.post(`/users/${user._id}/reset-password`, { password });
+      onSaved();
+    } catch (error) {
+      // Error will be automatically shown by axios interceptor
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="xs" fullWidth>
+      <DialogTitle>
+        Reset Password for {user?.firstName} {user?.lastName}
+      </DialogTitle>
+      <DialogContent>
+        <Box sx={{ display: "flex", flexDirection: "column", gap: 2, mt: 1 }}>
+          <TextField
+            label="New Password"
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            error={tooShort}
+            helperText={`At least ${MIN_PASSWORD_LENGTH} characters`}
+            autoComplete="new-password"
+            required
+            fullWidth
+          />
+          <TextField
+            label="Confirm Password"
+            type="password"
+            value={confirmPassword}
+            onChange={(e) => setConfirmPassword(e.target.value)}
+            error={mismatch}
+            helperText={mismatch ? "Passwords do not match" : " "}
+            autoComplete="new-password"
+            required
+            fullWidth
+          />
+        </Box>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={saving}>
+          Cancel
+        </Button>
+        <Button
+          variant="contained"
+          onClick={handleSave}
+          disabled={
+            saving || !password || tooShort || password !== confirmPassword
+          }
+        >
+          Reset Password
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default ResetPasswordDialog;
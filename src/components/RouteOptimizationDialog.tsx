@@ -0,0 +1,88 @@
+import React from "react";
+import {
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  List,
+  ListItem,
+  ListItemText,
+  Typography,
+} from "@mui/material";
+import { formatDistance } from "../utils/geo";
+
+interface RouteOptimizationDialogProps {
+  open: boolean;
+  currentDistance: number;
+  optimizedDistance: number;
+  stopNames: string[];
+  onClose: () => void;
+  onApply: () => void;
+}
+
+const RouteOptimizationDialog: React.FC<RouteOptimizationDialogProps> = ({
+  open,
+  currentDistance,
+  optimizedDistance,
+  stopNames,
+  onClose,
+  onApply,
+}) => {
+  const saved = currentDistance - optimizedDistance;
+  const savedPercent =
+    currentDistance > 0 ? (saved / currentDistance) * 100 : 0;
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>Optimise Route</DialogTitle>
+      <DialogContent>
+        <Box sx={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 2 }}>
+          <Box>
+            <Typography variant="subtitle2" color="text.secondary">
+              Current Route
+            </Typography>
+            <Typography variant="h6">
+              {formatDistance(currentDistance)}
+            </Typography>
+          </Box>
+          <Box>
+            <Typography variant="subtitle2" color="text.secondary">
+              Optimised Route
+            </Typography>
+            <Typography variant="h6" color="success.main">
+              {formatDistance(optimizedDistance)}
+            </Typography>
+          </Box>
+        </Box>
+        <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
+          {saved > 0
+            ? `Saves ${formatDistance(saved)} (${savedPercent.toFixed(
+                0
+              )}%) of straight-line distance.`
+            : "The current sequence is already the shortest route found."}
+        </Typography>
+
+        <Typography variant="subtitle1" sx={{ mt: 2 }}>
+          New Stop Order
+        </Typography>
+        <List dense>
+          {stopNames.map((name, index) => (
+            <ListItem key={`${name}-${index}`} disableGutters>
+              <ListItemText primary={`${index + 1}. ${name}`} />
+            </ListItem>
+          ))}
+        </List>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button onClick={onApply} variant="contained" disabled={saved <= 0}>
+          Apply & Save
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default RouteOptimizationDialog;
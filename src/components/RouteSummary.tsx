@@ -0,0 +1,189 @@
+import React, { useMemo } from "react";
+import {
+  Box,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography,
+} from "@mui/material";
+import { format } from "date-fns";
+import { LatLng, formatDistance } from "../utils/geo";
+import { RouteSettings, buildRouteSchedule } from "../utils/routeSchedule";
+
+interface RouteSummaryStop {
+  id: string;
+  name: string;
+  position: LatLng;
+}
+
+interface RouteSummaryProps {
+  base: LatLng;
+  stops: RouteSummaryStop[];
+  date: Date;
+  settings: RouteSettings;
+  onSettingsChange: (changes: Partial<RouteSettings>) => void;
+}
+
+const formatDuration = (minutes: number) => {
+  const rounded = Math.round(minutes);
+  const hours = Math.floor(rounded / 60);
+  return hours > 0 ? `${hours} h ${rounded % 60} min` : `${rounded} min`;
+};
+
+const RouteSummary: React.FC<RouteSummaryProps> = ({
+  base,
+  stops,
+  date,
+  settings,
+  onSettingsChange,
+}) => {
+  const schedule = useMemo(
+    () =>
+      buildRouteSchedule(
+        base,
+        stops.map((stop) => stop.position),
+        date,
+        settings
+      ),
+    [base, stops, date, settings]
+  );
+
+  const handleNumberChange =
+    (field: "averageSpeedKmh" | "serviceMinutes") =>
+    (e: React.ChangeEvent<HTMLInputElement>) => {
+      const value = parseFloat(e.target.value);
+      if (!isNaN(value) && value >= 0) {
+        onSettingsChange({ [field]: value });
+      }
+    };
+
+  return (
+    <Paper sx={{ p: 2 }}>
+      <Box
+        sx={{
+          display: "flex",
+          justifyContent: "space-between",
+          alignItems: "center",
+          flexWrap: "wrap",
+          gap: 2,
+          mb: 2,
+        }}
+      >
+        <Typography variant="h6">Route Summary</Typography>
+        <Box sx={{ display: "flex", gap: 1 }}>
+          <TextField
+            label="Avg. Speed (km/h)"
+            type="number"
+            size="small"
+            value={settings.averageSpeedKmh}
+            onChange={handleNumberChange("averageSpeedKmh")}
+            inputProps={{ min: 1 }}
+            sx={{ width: 140 }}
+          />
+          <TextField
+            label="Service (min)"
+            type="number"
+            size="small"
+            value={settings.serviceMinutes}
+            onChange={handleNumberChange("serviceMinutes")}
+            inputProps={{ min: 0 }}
+            sx={{ width: 120 }}
+          />
+          <TextField
+            label="Shift Start"
+            type="time"
+            size="small"
+            value={settings.shiftStart}
+            onChange={(e) => onSettingsChange({ shiftStart: e.target.value })}
+            InputLabelProps={{ shrink: true }}
+            sx={{ width: 120 }}
+          />
+        </Box>
+      </Box>
+
+      {stops.length === 0 ? (
+        <Typography color="text.secondary">
+          No stops with coordinates to summarise
+        </Typography>
+      ) : (
+        <>
+          <Box
+            sx={{
+              display: "grid",
+              gridTemplateColumns: "repeat(3, 1fr)",
+              mb: 2,
+            }}
+          >
+            <Box>
+              <Typography variant="subtitle2" color="text.secondary">
+                Total Distance
+              </Typography>
+              <Typography variant="h6">
+                {formatDistance(schedule.totalDistance)}
+              </Typography>
+            </Box>
+            <Box>
+              <Typography variant="subtitle2" color="text.secondary">
+                Driving Time
+              </Typography>
+              <Typography variant="h6">
+                {formatDuration(schedule.totalTravelMinutes)}
+              </Typography>
+            </Box>
+            <Box>
+              <Typography variant="subtitle2" color="text.secondary">
+                Back at Base
+              </Typography>
+              <Typography variant="h6">
+                {format(schedule.end, "HH:mm")}
+              </Typography>
+            </Box>
+          </Box>
+
+          <TableContainer>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>#</TableCell>
+                  <TableCell>Stop</TableCell>
+                  <TableCell align="right">Distance</TableCell>
+                  <TableCell align="right">ETA</TableCell>
+                  <TableCell align="right">Departure</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {schedule.legs.map((leg, index) => {
+                  const stop = stops[index];
+                  return (
+                    <TableRow key={stop ? stop.id : "return"}>
+                      <TableCell>{stop ? index + 1 : "–"}</TableCell>
+                      <TableCell>
+                        {stop ? stop.name : "Return to base"}
+                      </TableCell>
+                      <TableCell align="right">
+                        {formatDistance(leg.distance)}
+                      </TableCell>
+                      <TableCell align="right">
+                        {format(leg.arrival, "HH:mm")}
+                      </TableCell>
+                      <TableCell align="right">
+                        {stop ? format(leg.departure, "HH:mm") : "–"}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        </>
+      )}
+    </Paper>
+  );
+};
+
+export default RouteSummary;
@@ -0,0 +1,86 @@
+import React, { useState, useEffect } from "react";
+import {
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogContentText,
+  DialogTitle,
+} from "@mui/material";
+
+interface SessionExpiryDialogProps {
+  open: boolean;
+  expiresAt: number | null;
+  // Without a refresh token the session cannot be extended
+  canExtend: boolean;
+  extending: boolean;
+  onExtend: () => void;
+  onLogout: () => void;
+  onDismiss: () => void;
+}
+
+const SessionExpiryDialog: React.FC<SessionExpiryDialogProps> = ({
+  open,
+  expiresAt,
+  canExtend,
+  extending,
+  onExtend,
+  onLogout,
+  onDismiss,
+}) => {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    if (!open) return;
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [open]);
+
+  const secondsLeft = expiresAt
+    ? Math.max(0, Math.round((expiresAt - now) / 1000))
+    : 0;
+
+  return (
+    <Dialog
+      open={open}
+      onClose={(_event, reason) => {
+        // Force an explicit decision, clicking outside must not dismiss it
+        if (reason !== "backdropClick") onDismiss();
+      }}
+      maxWidth="xs"
+      fullWidth
+    >
+      <DialogTitle>Session Expiring</DialogTitle>
+      <DialogContent>
+        <DialogContentText>
+          Your session expires in {secondsLeft} second(s).{" "}
+          {canExtend
+            ? "Stay signed in to keep working."
+            : "Save your work, you will need to log in again."}
+        </DialogContentText>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onLogout} disabled={extending}>
+          Log Out
+        </Button>
+        {canExtend ? (
+          <Button
+            variant="contained"
+            onClick={onExtend}
+            disabled={extending}
+            autoFocus
+          >
+            Stay Signed In
+          </Button>
+        ) : (
+          <Button variant="contained" onClick={onDismiss} autoFocus>
+            OK
+          </Button>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default SessionExpiryDialog;
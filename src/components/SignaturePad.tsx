@@ -0,0 +1,117 @@
+import React, { useEffect, useRef } from "react";
+import { Box, Button, Typography } from "@mui/material";
+
+interface SignaturePadProps {
+  value: string | null;
+  onChange: (value: string | null) => void;
+  height?: number;
+}
+
+// Captures a signature with mouse, pen or finger as a PNG data URL
+const SignaturePad: React.FC<SignaturePadProps> = ({
+  value,
+  onChange,
+  height = 150,
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const drawingRef = useRef(false);
+  // Later strokes are drawn directly, the value is only drawn on mount
+  const initialValueRef = useRef(value);
+
+  // Size the canvas to its element and draw an existing signature
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    canvas.width = canvas.offsetWidth;
+    canvas.height = canvas.offsetHeight;
+    const context = canvas.getContext("2d");
+    if (!context) return;
+
+    context.lineWidth = 2;
+    context.lineCap = "round";
+    context.strokeStyle = "#000";
+    if (initialValueRef.current) {
+      const image = new Image();
+      image.onload = () => context.drawImage(image, 0, 0);
+      image.src = initialValueRef.current;
+    }
+  }, []);
+
+  const getPoint = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    return { x: event.clientX - rect.left, y: event.clientY - rect.top };
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const context = event.currentTarget.getContext("2d");
+    if (!context) return;
+
+    event.currentTarget.setPointerCapture(event.pointerId);
+    drawingRef.current = true;
+    const { x, y } = getPoint(event);
+    context.beginPath();
+    context.moveTo(x, y);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawingRef.current) return;
+    const context = event.currentTarget.getContext("2d");
+    if (!context) return;
+
+    const { x, y } = getPoint(event);
+    context.lineTo(x, y);
+    context.stroke();
+  };
+
+  const handlePointerUp = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawingRef.current) return;
+    drawingRef.current = false;
+    onChange(event.currentTarget.toDataURL("image/png"));
+  };
+
+  const handleClear = () => {
+    const canvas = canvasRef.current;
+    canvas?.getContext("2d")?.clearRect(0, 0, canvas.width, canvas.height);
+    onChange(null);
+  };
+
+  return (
+    <Box>
+      <Box
+        component="canvas"
+        ref={canvasRef}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerLeave={handlePointerUp}
+        sx={{
+          width: "100%",
+          height,
+          border: 1,
+          borderColor: "divider",
+          borderRadius: 1,
+          touchAction: "none",
+          bgcolor: "#fff",
+          display: "block",
+        }}
+      />
+      <Box
+        sx={{
+          display: "flex",
+          justifyContent: "space-between",
+          alignItems: "center",
+        }}
+      >
+        <Typography variant="caption" color="text.secondary">
+          Sign above
+        </Typography>
+        <Button size="small" onClick={handleClear} disabled={!value}>
+          Clear
+        </Button>
+      </Box>
+    </Box>
+  );
+};
+
+export default SignaturePad;
@@ -0,0 +1,135 @@
+import React, { useState, useEffect } from "react";
+import {
+  Box,
+  Button,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  TextField,
+  Typography,
+  useMediaQuery,
+  useTheme,
+} from "@mui/material";
+import { DeliveryStatus } from "../types/delivery";
+import SignaturePad from "./SignaturePad";
+
+export interface StopOutcome {
+  status: DeliveryStatus.DELIVERED | DeliveryStatus.FAILED;
+  notes: string;
+  failureReason: string;
+  signature: string | null;
+}
+
+interface StopOutcomeDialogProps {
+  open: boolean;
+  status: StopOutcome["status"];
+  customerName: string;
+  saving: boolean;
+  onCancel: () => void;
+  onConfirm: (outcome: StopOutcome) => void;
+}
+
+const commonFailureReasons = [
+  "Nobody home",
+  "No access",
+  "Refused by customer",
+  "Wrong address",
+];
+
+const StopOutcomeDialog: React.FC<StopOutcomeDialogProps> = ({
+  open,
+  status,
+  customerName,
+  saving,
+  onCancel,
+  onConfirm,
+}) => {
+  const theme = useTheme();
+  const fullScreen = useMediaQuery(theme.breakpoints.down("sm"));
+  const [notes, setNotes] = useState("");
+  const [failureReason, setFailureReason] = useState("");
+  const [signature, setSignature] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setNotes("");
+    setFailureReason("");
+    setSignature(null);
+  }, [open]);
+
+  const failed = status === DeliveryStatus.FAILED;
+
+  return (
+    <Dialog open={open} onClose={onCancel} fullScreen={fullScreen} fullWidth>
+      <DialogTitle>
+        {failed ? "Delivery Failed" : "Confirm Delivery"}: {customerName}
+      </DialogTitle>
+      <DialogContent>
+        {failed && (
+          <>
+            <Box sx={{ display: "flex", flexWrap: "wrap", gap: 1, mb: 2 }}>
+              {commonFailureReasons.map((reason) => (
+                <Chip
+                  key={reason}
+                  label={reason}
+                  color={failureReason === reason ? "error" : "default"}
+                  onClick={() => setFailureReason(reason)}
+                />
+              ))}
+            </Box>
+            <TextField
+              fullWidth
+              label="Failure Reason"
+              value={failureReason}
+              onChange={(e) => setFailureReason(e.target.value)}
+              required
+              sx={{ mb: 2 }}
+            />
+          </>
+        )}
+        <TextField
+          fullWidth
+          multiline
+          minRows={2}
+          label="Notes"
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+          sx={{ mt: 1, mb: 2 }}
+        />
+        {!failed && (
+          <>
+            <Typography variant="subtitle2" gutterBottom>
+              Customer Signature
+            </Typography>
+            {open && <SignaturePad value={signature} onChange={setSignature} />}
+          </>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onCancel} disabled={saving} size="large">
+          Cancel
+        </Button>
+        <Button
+          variant="contained"
+          color={failed ? "error" : "success"}
+          size="large"
+          onClick={() =>
+            onConfirm({
+              status,
+              notes: notes.trim(),
+              failureReason: failureReason.trim(),
+              signature,
+            })
+          }
+          disabled={saving || (failed && !failureReason.trim())}
+        >
+          {failed ? "Mark Failed" : "Mark Delivered"}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default StopOutcomeDialog;
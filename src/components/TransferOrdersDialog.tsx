@@ -0,0 +1,112 @@
+import React, { useState, useEffect } from "react";
+import {
+  Alert,
+  Autocomplete,
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  TextField,
+  Typography,
+} from "@mui/material";
+import { getDriverUnavailability, VacationWindow } from "../utils/vacation";
+import DriverAvailabilityChip from "./DriverAvailabilityChip";
+
+interface TransferDriver extends VacationWindow {
+  _id: string;
+  name: string;
+  driverNumber: string;
+}
+
+interface TransferOrdersDialogProps<T extends TransferDriver> {
+  open: boolean;
+  fromDriver: T | null;
+  drivers: T[];
+  orderCount: number;
+  // Selected orders are moved, otherwise every order of the driver
+  selectionOnly: boolean;
+  date: Date;
+  onCancel: () => void;
+  onConfirm: (driver: T) => void;
+}
+
+const TransferOrdersDialog = <T extends TransferDriver>({
+  open,
+  fromDriver,
+  drivers,
+  orderCount,
+  selectionOnly,
+  date,
+  onCancel,
+  onConfirm,
+}: TransferOrdersDialogProps<T>) => {
+  const [target, setTarget] = useState<T | null>(null);
+
+  useEffect(() => {
+    if (open) setTarget(null);
+  }, [open]);
+
+  const options = drivers.filter((driver) => driver._id !== fromDriver?._id);
+
+  return (
+    <Dialog open={open} onClose={onCancel} maxWidth="sm" fullWidth>
+      <DialogTitle>Transfer Orders</DialogTitle>
+      <DialogContent>
+        <Typography sx={{ mb: 2 }}>
+          Move {selectionOnly ? "the" : "all"} {orderCount}{" "}
+          {selectionOnly ? "selected " : ""}order(s) of {fromDriver?.name} to
+          another driver.
+        </Typography>
+        <Autocomplete
+          options={options}
+          value={target}
+          onChange={(_event, value) => setTarget(value)}
+          getOptionLabel={(option) =>
+            `${option.name} (Driver #${option.driverNumber})`
+          }
+          renderOption={(props, option) => {
+            const { key, ...otherProps } = props;
+            const unavailability = getDriverUnavailability(option, date);
+            return (
+              <li
+                key={key}
+                {...otherProps}
+                style={unavailability ? { opacity: 0.5 } : undefined}
+              >
+                <Box sx={{ display: "flex", alignItems: "center", gap: 1 }}>
+                  {option.name} (#{option.driverNumber})
+                  <DriverAvailabilityChip
+                    driver={option}
+                    unavailability={unavailability}
+                  />
+                </Box>
+              </li>
+            );
+          }}
+          renderInput={(params) => (
+            <TextField {...params} label="Transfer to" autoFocus />
+          )}
+        />
+        {fromDriver && getDriverUnavailability(fromDriver, date) && (
+          <Alert severity="info" sx={{ mt: 2 }}>
+            {fromDriver.name} is unavailable on the selected date.
+          </Alert>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onCancel}>Cancel</Button>
+        <Button
+          onClick={() => target && onConfirm(target)}
+          variant="contained"
+          disabled={!target || orderCount === 0}
+        >
+          Transfer
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default TransferOrdersDialog;
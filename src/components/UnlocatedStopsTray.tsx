@@ -0,0 +1,122 @@
+import React, { useState } from "react";
+import {
+  Box,
+  Button,
+  List,
+  ListItem,
+  ListItemText,
+  MenuItem,
+  Paper,
+  TextField,
+  Typography,
+} from "@mui/material";
+import {
+  AddLocationAlt as PinIcon,
+  PlaylistAdd as InsertIcon,
+} from "@mui/icons-material";
+
+interface UnlocatedStop {
+  _id: string;
+  orderNumber: string;
+  customer: {
+    name: string;
+    street: string;
+    houseNumber: string;
+    postalCode: string;
+    city: string;
+  };
+}
+
+interface UnlocatedStopsTrayProps<T extends UnlocatedStop> {
+  orders: T[];
+  // Number of stops already in the sequence
+  sequenceLength: number;
+  onPin: (order: T) => void;
+  onInsert: (order: T, index: number) => void;
+}
+
+const UnlocatedStopsTray = <T extends UnlocatedStop>({
+  orders,
+  sequenceLength,
+  onPin,
+  onInsert,
+}: UnlocatedStopsTrayProps<T>) => {
+  // Chosen insert position per order, defaults to the end of the route
+  const [positions, setPositions] = useState<Record<string, number>>({});
+
+  if (orders.length === 0) return null;
+
+  return (
+    <Paper
+      variant="outlined"
+      sx={{ m: 1, p: 1, borderColor: "warning.main", bgcolor: "#fff8e1" }}
+    >
+      <Typography variant="subtitle1" fontWeight="bold">
+        Unlocated Stops ({orders.length})
+      </Typography>
+      <Typography variant="caption" color="text.secondary">
+        These stops have no coordinates. Pin them on the map or insert them into
+        the sequence so the route covers every order.
+      </Typography>
+      <List dense>
+        {orders.map((order) => {
+          const position = Math.min(
+            positions[order._id] ?? sequenceLength,
+            sequenceLength
+          );
+          return (
+            <ListItem
+              key={order._id}
+              disableGutters
+              sx={{ flexWrap: "wrap", gap: 1 }}
+            >
+              <ListItemText
+                sx={{ flex: "1 1 200px" }}
+                primary={`${order.customer.name} (Order #${order.orderNumber})`}
+                secondary={`${order.customer.street} ${order.customer.houseNumber}, ${order.customer.postalCode} ${order.customer.city}`}
+              />
+              <Box sx={{ display: "flex", gap: 1, alignItems: "center" }}>
+                <Button
+                  size="small"
+                  startIcon={<PinIcon />}
+                  onClick={() => onPin(order)}
+                >
+                  Pin
+                </Button>
+                <TextField
+                  select
+                  size="small"
+                  label="Position"
+                  value={position}
+                  onChange={(e) =>
+                    setPositions((prev) => ({
+                      ...prev,
+                      [order._id]: Number(e.target.value),
+                    }))
+                  }
+                  sx={{ minWidth: 90 }}
+                >
+                  {Array.from({ length: sequenceLength + 1 }, (_, index) => (
+                    <MenuItem key={index} value={index}>
+                      {index + 1}
+                    </MenuItem>
+                  ))}
+                </TextField>
+                <Button
+                  size="small"
+                  variant="outlined"
+                  startIcon={<InsertIcon />}
+                  onClick={() => onInsert(order, position)}
+                >
+                  Insert
+                </Button>
+              </Box>
+            </ListItem>
+          );
+        })}
+      </List>
+    </Paper>
+  );
+};
+
+export default UnlocatedStopsTray;
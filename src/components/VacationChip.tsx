@@ -0,0 +1,46 @@
+import React from "react";
+import { Chip } from "@mui/material";
+import { format } from "date-fns";
+import { VacationOutcome } from "../utils/vacation";
+
+interface VacationChipProps {
+  outcome?: VacationOutcome;
+  originalDate: Date;
+  date?: Date;
+}
+
+const VacationChip: React.FC<VacationChipProps> = ({
+  outcome,
+  originalDate,
+  date,
+}) => {
+  if (outcome === VacationOutcome.SKIPPED) {
+    return (
+      <Chip
+        label="Skipped – customer on vacation"
+        size="small"
+        color="warning"
+        variant="outlined"
+      />
+    );
+  }
+
+  if (outcome === VacationOutcome.RESCHEDULED) {
+    return (
+      <Chip
+        label={
+          date
+            ? `Moved to ${format(date, "MMM d")} – customer on vacation`
+            : `Rescheduled from ${format(originalDate, "MMM d")}`
+        }
+        size="small"
+        color="info"
+        variant="outlined"
+      />
+    );
+  }
+
+  return null;
+};
+
+export default VacationChip;
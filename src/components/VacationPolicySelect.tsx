@@ -0,0 +1,39 @@
+import React from "react";
+import {
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  SelectChangeEvent,
+} from "@mui/material";
+import { VacationPolicy } from "../utils/vacation";
+
+interface VacationPolicySelectProps {
+  value: VacationPolicy;
+  onChange: (value: VacationPolicy) => void;
+}
+
+const VacationPolicySelect: React.FC<VacationPolicySelectProps> = ({
+  value,
+  onChange,
+}) => {
+  return (
+    <FormControl size="small" sx={{ minWidth: 260 }}>
+      <InputLabel>Customer Vacations</InputLabel>
+      <Select
+        value={value}
+        label="Customer Vacations"
+        onChange={(e: SelectChangeEvent) =>
+          onChange(e.target.value as VacationPolicy)
+        }
+      >
+        <MenuItem value={VacationPolicy.SKIP}>Skip deliveries</MenuItem>
+        <MenuItem value={VacationPolicy.RESCHEDULE}>
+          Reschedule to next working day
+        </MenuItem>
+      </Select>
+    </FormControl>
+  );
+};
+
+export default VacationPolicySelect;
@@ -1,2 +1,10 @@
 // Google Maps API Key config
 export const GOOGLE_MAPS_API_KEY = "API KEY";
+
+// Map backend, "google" or "leaflet" (OpenStreetMap). Google falls back to
+// OpenStreetMap when its script cannot be loaded.
+export const MAP_PROVIDER =
+  process.env.REACT_APP_MAP_PROVIDER === "leaflet" ? "leaflet" : "google";
+
+// Map centre used until a default depot has been configured (Berlin)
+export const DEFAULT_MAP_CENTER = { lat: 52.52, lng: 13.405 };
@@ -1,19 +1,22 @@
-import React, { createContext, useContext, useState, useEffect } from "react";
-import { UserRole } from "../types/user";
-import api from "../utils/axios";
-
-interface User {
-  id: string;
-  email: string;
-  firstName: string;
-  lastName: string;
-  role: UserRole;
-}
-
-interface LoginResponse {
-  token: string;
-  user: User;
-}
+import React, {
+  createContext,
+  useContext,
+  useState,
+  useEffect,
+  useCallback,
+} from "react";
+import { LoginResponse, User } from "../types/user";
+import api, { refreshAccessToken, setSessionHandlers } from "../utils/axios";
+import {
+  REFRESH_TOKEN_KEY,
+  clearStoredSession,
+  getTokenExpiry,
+  isTokenExpired,
+  parseUser,
+  readStoredSession,
+  storeSession,
+} from "../utils/session";
+import SessionExpiryDialog from "../components/SessionExpiryDialog";
 
 interface AuthContextType {
   user: User | null;
@@ -24,6 +27,32 @@ interface AuthContextType {
   loading: boolean;
 }
 
+// Renew this long before the token expires
+const REFRESH_BEFORE_MS = 2 * 60 * 1000;
+// Warn this long before expiry when renewing was not possible
+const WARNING_BEFORE_MS = 60 * 1000;
+// setTimeout overflows beyond ~24.8 days
+const MAX_TIMEOUT_MS = 2 ** 31 - 1;
+
+// Checks the account against the backend, so that changes made since the
+// session was stored (role, deactivation) take effect
+const fetchCurrentUser = async (): Promise<User> => {
+  const response = await api.get("/users/me");
+  const user = parseUser(response.data);
+  if (!user) {
+    throw new Error("Unexpected user data from the server");
+  }
+  return user;
+};
+
+// Errors from the axios interceptor wrap the original error, which only has
+// a response when the server answered
+const isServerRejection = (error: unknown): boolean => {
+  if (!error || typeof error !== "object") return false;
+  if ("response" in error && error.response) return true;
+  return "originalError" in error && isServerRejection(error.originalError);
+};
+
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
 export const useAuth = () => {
@@ -40,27 +69,78 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({
   const [user, setUser] = useState<User | null>(null);
   const [token, setToken] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
+  const [warningOpen, setWarningOpen] = useState(false);
+  const [extending, setExtending] = useState(false);
+
+  const logout = useCallback(() => {
+    clearStoredSession();
+
+    // Clear the token from axios headers
+    delete api.defaults.headers.common["Authorization"];
+
+    setToken(null);
+    setUser(null);
+    setWarningOpen(false);
+  }, []);
+
+  // Token changes made by the axios interceptor
+  useEffect(() => {
+    setSessionHandlers({
+      onRefreshed: (newToken) => {
+        api.defaults.headers.common["Authorization"] = `Bearer ${newToken}`;
+        setToken(newToken);
+      },
+      onExpired: logout,
+    });
+    return () => setSessionHandlers(null);
+  }, [logout]);
 
   useEffect(() => {
     const initializeAuth = async () => {
       try {
-        const storedToken = localStorage.getItem("token");
-        const storedUser = localStorage.getItem("user");
+        const session = readStoredSession();
+        if (!session) {
+          // Nothing stored, or data that does not look like a session
+          clearStoredSession();
+          return;
+        }
 
-        if (storedToken && storedUser) {
-          // Set the token in axios headers
-          api.defaults.headers.common[
-            "Authorization"
-          ] = `Bearer ${storedToken}`;
+        let storedToken = session.token;
+        // Renew a token that expired while the app was closed
+        if (isTokenExpired(storedToken)) {
+          storedToken = await refreshAccessToken();
+        }
+
+        // Set the token in axios headers
+        api.defaults.headers.common["Authorization"] = `Bearer ${storedToken}`;
+
+        let currentUser = session.user;
+        try {
+          currentUser = await fetchCurrentUser();
+        } catch (error) {
+          // Keep working offline with the stored user, but not when the
+          // server rejected the session
+          if (isServerRejection(error) || !readStoredSession()) {
+            throw error;
+          }
+        }
 
-          setToken(storedToken);
-          setUser(JSON.parse(storedUser));
+        if (!currentUser.isActive) {
+          throw new Error("This account has been deactivated");
         }
+
+        storeSession({
+          token: storedToken,
+          refreshToken: localStorage.getItem(REFRESH_TOKEN_KEY),
+          user: currentUser,
+        });
+        setToken(storedToken);
+        setUser(currentUser);
       } catch (error) {
         console.error("Error initializing auth:", error);
         // Clear invalid data
-        localStorage.removeItem("token");
-        localStorage.removeItem("user");
+        clearStoredSession();
+        delete api.defaults.headers.common["Authorization"];
         setToken(null);
         setUser(null);
       } finally {
@@ -71,16 +151,58 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({
     initializeAuth();
   }, []);
 
+  // Renew the token shortly before it expires. If that fails, warn the user
+  // and log out once it has expired.
+  useEffect(() => {
+    const expiresAt = token && getTokenExpiry(token);
+    if (!expiresAt) return;
+
+    const schedule = (callback: () => void, before: number) => {
+      const delay = Math.max(0, expiresAt - before - Date.now());
+      return delay < MAX_TIMEOUT_MS ? setTimeout(callback, delay) : undefined;
+    };
+
+    const timers = [
+      schedule(() => {
+        refreshAccessToken().catch(() => {
+          // The warning below takes over
+        });
+      }, REFRESH_BEFORE_MS),
+      schedule(() => setWarningOpen(true), WARNING_BEFORE_MS),
+      schedule(logout, 0),
+    ];
+    setWarningOpen(false);
+    return () => timers.forEach((timer) => clearTimeout(timer));
+  }, [token, logout]);
+
+  const handleExtend = async () => {
+    setExtending(true);
+    try {
+      await refreshAccessToken();
+    } catch (error) {
+      logout();
+    } finally {
+      setExtending(false);
+    }
+  };
+
   const login = async (email: string, password: string) => {
     try {
       const response = await api.post<LoginResponse>("/users/login", {
         email,
         password,
       });
-      const { token, user } = response.data;
+      const { token, refreshToken } = response.data;
+      const user = parseUser(response.data.user);
 
-      localStorage.setItem("token", token);
-      localStorage.setItem("user", JSON.stringify(user));
+      if (!user) {
+        throw new Error("Unexpected login response from the server");
+      }
+      if (!user.isActive) {
+        throw new Error("This account has been deactivated");
+      }
+
+      storeSession({ token, refreshToken: refreshToken ?? null, user });
 
       // Set the token in axios headers
       api.defaults.headers.common["Authorization"] = `Bearer ${token}`;
@@ -92,17 +214,6 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({
     }
   };
 
-  const logout = () => {
-    localStorage.removeItem("token");
-    localStorage.removeItem("user");
-
-    // Clear the token from axios headers
-    delete api.defaults.headers.common["Authorization"];
-
-    setToken(null);
-    setUser(null);
-  };
-
   const value = {
     user,
     token,
@@ -112,5 +223,18 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({
     loading,
   };
 
-  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+  return (
+    <AuthContext.Provider value={value}>
+      {children}
+      <SessionExpiryDialog
+        open={warningOpen && !!token}
+        expiresAt={token ? getTokenExpiry(token) : null}
+        canExtend={!!localStorage.getItem(REFRESH_TOKEN_KEY)}
+        extending={extending}
+        onExtend={handleExtend}
+        onLogout={logout}
+        onDismiss={() => setWarningOpen(false)}
+      />
+    </AuthContext.Provider>
+  );
 };
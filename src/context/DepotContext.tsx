@@ -0,0 +1,96 @@
+import React, {
+  createContext,
+  useContext,
+  useState,
+  useEffect,
+  useCallback,
+  useMemo,
+} from "react";
+import { Depot } from "../types/depot";
+import { DEFAULT_MAP_CENTER } from "../config/map";
+import { LatLng } from "../utils/geo";
+import api from "../utils/axios";
+import { useAuth } from "./AuthContext";
+
+interface DepotContextType {
+  depots: Depot[];
+  defaultDepot: Depot | null;
+  mapCenter: LatLng;
+  getDepot: (depot?: string | Depot | null) => Depot | null;
+  refreshDepots: () => Promise<void>;
+  loading: boolean;
+}
+
+const DepotContext = createContext<DepotContextType | undefined>(undefined);
+
+export const useDepots = () => {
+  const context = useContext(DepotContext);
+  if (!context) {
+    throw new Error("useDepots must be used within a DepotProvider");
+  }
+  return context;
+};
+
+export const DepotProvider: React.FC<{ children: React.ReactNode }> = ({
+  children,
+}) => {
+  const { isAuthenticated } = useAuth();
+  const [depots, setDepots] = useState<Depot[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const refreshDepots = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await api.get<Depot[]>("/depots");
+      setDepots(response.data);
+    } catch (error) {
+      // Error will be automatically shown by axios interceptor
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isAuthenticated) {
+      refreshDepots();
+    } else {
+      setDepots([]);
+    }
+  }, [isAuthenticated, refreshDepots]);
+
+  const defaultDepot = useMemo(
+    () => depots.find((depot) => depot.isDefault) || depots[0] || null,
+    [depots]
+  );
+
+  const mapCenter = useMemo(
+    () =>
+      defaultDepot
+        ? { lat: defaultDepot.latitude, lng: defaultDepot.longitude }
+        : DEFAULT_MAP_CENTER,
+    [defaultDepot]
+  );
+
+  // Drivers reference their home depot either by id or populated, fall back
+  // to the default depot when it is missing or has been deleted
+  const getDepot = useCallback(
+    (depot?: string | Depot | null) => {
+      const depotId = typeof depot === "string" ? depot : depot?._id;
+      return depots.find((d) => d._id === depotId) || defaultDepot;
+    },
+    [depots, defaultDepot]
+  );
+
+  const value = {
+    depots,
+    defaultDepot,
+    mapCenter,
+    getDepot,
+    refreshDepots,
+    loading,
+  };
+
+  return (
+    <DepotContext.Provider value={value}>{children}</DepotContext.Provider>
+  );
+};
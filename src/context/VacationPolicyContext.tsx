@@ -0,0 +1,90 @@
+import React, {
+  createContext,
+  useContext,
+  useState,
+  useEffect,
+  useCallback,
+} from "react";
+import { VacationPolicy } from "../utils/vacation";
+import api from "../utils/axios";
+import { useAuth } from "./AuthContext";
+
+interface VacationPolicyContextType {
+  policy: VacationPolicy;
+  setPolicy: (policy: VacationPolicy) => Promise<void>;
+  loading: boolean;
+}
+
+const VacationPolicyContext = createContext<
+  VacationPolicyContextType | undefined
+>(undefined);
+
+export const useVacationPolicy = () => {
+  const context = useContext(VacationPolicyContext);
+  if (!context) {
+    throw new Error(
+      "useVacationPolicy must be used within a VacationPolicyProvider"
+    );
+  }
+  return context;
+};
+
+// The policy decides which stops a route contains, so dispatchers and drivers
+// must all see the same value: it is stored on the server rather than per browser
+export const VacationPolicyProvider: React.FC<{
+  children: React.ReactNode;
+}> = ({ children }) => {
+  const { isAuthenticated } = useAuth();
+  const [policy, setPolicyState] = useState<VacationPolicy>(
+    VacationPolicy.SKIP
+  );
+  const [loading, setLoading] = useState(false);
+
+  const fetchPolicy = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await api.get<{ policy: VacationPolicy }>(
+        "/settings/vacation-policy"
+      );
+      setPolicyState(response.data.policy);
+    } catch (error) {
+      // Error will be automatically shown by axios interceptor
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isAuthenticated) {
+      fetchPolicy();
+    } else {
+      setPolicyState(VacationPolicy.SKIP);
+    }
+  }, [isAuthenticated, fetchPolicy]);
+
+  const setPolicy = useCallback(
+    async (value: VacationPolicy) => {
+      const previous = policy;
+      setPolicyState(value);
+      try {
+        await api.put("/settings/vacation-policy", { policy: value });
+      } catch (error) {
+        // Error will be automatically shown by axios interceptor
+        setPolicyState(previous);
+      }
+    },
+    [policy]
+  );
+
+  const value = {
+    policy,
+    setPolicy,
+    loading,
+  };
+
+  return (
+    <VacationPolicyContext.Provider value={value}>
+      {children}
+    </VacationPolicyContext.Provider>
+  );
+};
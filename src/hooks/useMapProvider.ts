@@ -0,0 +1,49 @@
+import { useState, useEffect, RefObject } from "react";
+import { LatLng, MapInstance, MapProvider, loadMapProvider } from "../maps";
+import { leafletProvider } from "../maps/leafletProvider";
+
+export const useMapProvider = () => {
+  const [provider, setProvider] = useState<MapProvider | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadMapProvider()
+      .then((loaded) => {
+        if (!cancelled) setProvider(loaded);
+      })
+      .catch(() => {
+        // OpenStreetMap needs no script, so maps still render when loading fails
+        if (!cancelled) setProvider(leafletProvider);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return provider;
+};
+
+// Creates the map once the provider is ready. The initial view is only used
+// on creation, later moves go through the returned instance.
+export const useMap = (
+  containerRef: RefObject<HTMLElement | null>,
+  center: LatLng,
+  zoom: number
+) => {
+  const provider = useMapProvider();
+  const [map, setMap] = useState<MapInstance | null>(null);
+  const [initialView] = useState({ center, zoom });
+
+  useEffect(() => {
+    if (!provider || !containerRef.current) return;
+
+    const instance = provider.createMap(containerRef.current, initialView);
+    setMap(instance);
+    return () => {
+      instance.destroy();
+      setMap(null);
+    };
+  }, [provider, containerRef, initialView]);
+
+  return { provider, map };
+};
@@ -0,0 +1,19 @@
+import { useCallback } from "react";
+import { useAuth } from "../context/AuthContext";
+import { Permission, canAccessPath, hasPermission } from "../utils/permissions";
+
+export const usePermissions = () => {
+  const { user } = useAuth();
+  const role = user?.role;
+
+  const can = useCallback(
+    (permission: Permission) => hasPermission(role, permission),
+    [role]
+  );
+  const canAccess = useCallback(
+    (path: string) => canAccessPath(role, path),
+    [role]
+  );
+
+  return { can, canAccess };
+};
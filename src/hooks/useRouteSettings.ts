@@ -0,0 +1,29 @@
+import { useState, useCallback } from "react";
+import { DEFAULT_ROUTE_SETTINGS, RouteSettings } from "../utils/routeSchedule";
+
+const STORAGE_KEY = "routeSettings";
+
+const readSettings = (): RouteSettings => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored
+      ? { ...DEFAULT_ROUTE_SETTINGS, ...JSON.parse(stored) }
+      : DEFAULT_ROUTE_SETTINGS;
+  } catch (error) {
+    return DEFAULT_ROUTE_SETTINGS;
+  }
+};
+
+export const useRouteSettings = () => {
+  const [settings, setSettingsState] = useState<RouteSettings>(readSettings);
+
+  const updateSettings = useCallback((changes: Partial<RouteSettings>) => {
+    setSettingsState((prev) => {
+      const next = { ...prev, ...changes };
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+      return next;
+    });
+  }, []);
+
+  return { settings, updateSettings };
+};
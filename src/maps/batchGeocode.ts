@@ -0,0 +1,61 @@
+import { GeocodeConfidence, GeocodeResult, MapProvider } from "./types";
+
+export interface GeocodeOutcome<T> {
+  item: T;
+  address: string;
+  results: GeocodeResult[];
+  error?: string;
+}
+
+const wait = (ms: number) =>
+  new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+export const needsReview = (outcome: GeocodeOutcome<unknown>) =>
+  outcome.results.length > 0 &&
+  outcome.results[0].confidence !== GeocodeConfidence.HIGH;
+
+/**
+ * Geocodes the items one after another, keeping the provider's minimum
+ * interval between requests. Failures are reported per item instead of
+ * stopping the batch; aborting the signal stops after the current request.
+ */
+export const batchGeocode = async <T>(
+  provider: MapProvider,
+  items: T[],
+  getAddress: (item: T) => string,
+  onProgress: (outcome: GeocodeOutcome<T>) => void,
+  signal?: AbortSignal
+): Promise<GeocodeOutcome<T>[]> => {
+  const outcomes: GeocodeOutcome<T>[] = [];
+  let lastRequest = 0;
+
+  for (const item of items) {
+    if (signal?.aborted) break;
+
+    const delay = lastRequest + provider.geocodeIntervalMs - Date.now();
+    if (delay > 0) await wait(delay);
+    lastRequest = Date.now();
+
+    const address = getAddress(item);
+    let outcome: GeocodeOutcome<T>;
+    try {
+      const results = await provider.geocode(address);
+      outcome = {
+        item,
+        address,
+        results,
+        error: results.length === 0 ? "No match found" : undefined,
+      };
+    } catch (error) {
+      outcome = {
+        item,
+        address,
+        results: [],
+        error: error instanceof Error ? error.message : "Geocoding failed",
+      };
+    }
+    outcomes.push(outcome);
+    onProgress(outcome);
+  }
+  return outcomes;
+};
@@ -0,0 +1,178 @@
+import {
+  GeocodeConfidence,
+  GeocodeResult,
+  LatLng,
+  MapInstance,
+  MapMarker,
+  MapPolyline,
+  MapProvider,
+  MarkerOptions,
+  PolylineOptions,
+} from "./types";
+import { createMarkerElement } from "./markerElement";
+
+// The script tag in public/index.html loads asynchronously, give it this long
+// before falling back to another provider
+const LOAD_TIMEOUT_MS = 5000;
+
+const isGoogleReady = () =>
+  !!(window.google && window.google.maps && window.google.maps.marker);
+
+const toLatLng = (latLng: google.maps.LatLng): LatLng => ({
+  lat: latLng.lat(),
+  lng: latLng.lng(),
+});
+
+const getConfidence = (result: google.maps.GeocoderResult) => {
+  if (result.partial_match) return GeocodeConfidence.LOW;
+  switch (result.geometry.location_type) {
+    case google.maps.GeocoderLocationType.ROOFTOP:
+    case google.maps.GeocoderLocationType.RANGE_INTERPOLATED:
+      return GeocodeConfidence.HIGH;
+    case google.maps.GeocoderLocationType.GEOMETRIC_CENTER:
+      return GeocodeConfidence.MEDIUM;
+    default:
+      return GeocodeConfidence.LOW;
+  }
+};
+
+const createMap = (
+  element: HTMLElement,
+  options: { center: LatLng; zoom: number }
+): MapInstance => {
+  const map = new google.maps.Map(element, {
+    center: options.center,
+    zoom: options.zoom,
+    mapTypeId: google.maps.MapTypeId.ROADMAP,
+    mapId: "DEMO_MAP_ID", // Required for Advanced Markers
+  });
+  const infoWindow = new google.maps.InfoWindow();
+
+  const addMarker = (markerOptions: MarkerOptions): MapMarker => {
+    const marker = new google.maps.marker.AdvancedMarkerElement({
+      map,
+      position: markerOptions.position,
+      title: markerOptions.title,
+      gmpDraggable: markerOptions.draggable,
+      // Keep the default pin for plain markers, like the location picker
+      content:
+        markerOptions.label || markerOptions.color
+          ? createMarkerElement(markerOptions)
+          : undefined,
+    });
+
+    return {
+      setPosition: (position) => {
+        marker.position = position;
+      },
+      onClick: (callback) => {
+        marker.addListener("click", callback);
+      },
+      onDragEnd: (callback) => {
+        marker.addListener("dragend", (event: google.maps.MapMouseEvent) => {
+          if (event.latLng) callback(toLatLng(event.latLng));
+        });
+      },
+      remove: () => {
+        marker.map = null;
+      },
+    };
+  };
+
+  const addPolyline = (polylineOptions: PolylineOptions): MapPolyline => {
+    const polyline = new google.maps.Polyline({
+      map,
+      path: polylineOptions.path,
+      geodesic: true,
+      strokeColor: polylineOptions.color,
+      strokeOpacity: 1.0,
+      strokeWeight: polylineOptions.weight || 4,
+    });
+
+    return {
+      onClick: (callback) => {
+        polyline.addListener("click", callback);
+      },
+      remove: () => polyline.setMap(null),
+    };
+  };
+
+  return {
+    setCenter: (position, zoom) => {
+      map.setCenter(position);
+      if (zoom) map.setZoom(zoom);
+    },
+    fitBounds: (points) => {
+      if (points.length === 0) return;
+      const bounds = new google.maps.LatLngBounds();
+      points.forEach((point) => bounds.extend(point));
+      map.fitBounds(bounds, 40);
+    },
+    addMarker,
+    addPolyline,
+    openInfoWindow: (position, html) => {
+      infoWindow.setContent(html);
+      infoWindow.setPosition(position);
+      infoWindow.open(map);
+    },
+    onClick: (callback) => {
+      map.addListener("click", (event: google.maps.MapMouseEvent) => {
+        if (event.latLng) callback(toLatLng(event.latLng));
+      });
+    },
+    destroy: () => {
+      infoWindow.close();
+      google.maps.event.clearInstanceListeners(map);
+    },
+  };
+};
+
+export const googleProvider: MapProvider = {
+  id: "google",
+  name: "Google Maps",
+  geocodeIntervalMs: 200,
+  load: () =>
+    new Promise((resolve, reject) => {
+      const startedAt = Date.now();
+      const check = () => {
+        if (isGoogleReady()) {
+          resolve();
+        } else if (Date.now() - startedAt > LOAD_TIMEOUT_MS) {
+          reject(new Error("Google Maps could not be loaded"));
+        } else {
+          setTimeout(check, 100);
+        }
+      };
+      check();
+    }),
+  createMap,
+  geocode: async (address) => {
+    const geocoder = new google.maps.Geocoder();
+    try {
+      const { results } = await geocoder.geocode({ address });
+      return results.map(
+        (result): GeocodeResult => ({
+          position: toLatLng(result.geometry.location),
+          formattedAddress: result.formatted_address,
+          confidence: getConfidence(result),
+        })
+      );
+    } catch (error) {
+      // ZERO_RESULTS is reported as an error by the promise API
+      if (
+        (error as { code?: string }).code ===
+        google.maps.GeocoderStatus.ZERO_RESULTS
+      ) {
+        return [];
+      }
+      throw error;
+    }
+  },
+};
+
+// Add Google Maps types to window object
+declare global {
+  interface Window {
+    google: typeof google;
+  }
+}
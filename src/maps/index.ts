@@ -0,0 +1,32 @@
+import { MAP_PROVIDER } from "../config/map";
+import { googleProvider } from "./googleProvider";
+import { leafletProvider } from "./leafletProvider";
+import { MapProvider } from "./types";
+
+export * from "./types";
+
+let providerPromise: Promise<MapProvider> | null = null;
+
+const loadProvider = async (): Promise<MapProvider> => {
+  if (MAP_PROVIDER === "leaflet") {
+    return leafletProvider;
+  }
+  try {
+    await googleProvider.load();
+    return googleProvider;
+  } catch (error) {
+    // No API key, blocked script or offline: OpenStreetMap still works
+    await leafletProvider.load();
+    return leafletProvider;
+  }
+};
+
+/**
+ * Resolves the configured map provider once and shares it between all maps.
+ */
+export const loadMapProvider = (): Promise<MapProvider> => {
+  if (!providerPromise) {
+    providerPromise = loadProvider();
+  }
+  return providerPromise;
+};
@@ -0,0 +1,152 @@
+import L from "leaflet";
+import "leaflet/dist/leaflet.css";
+import {
+  GeocodeConfidence,
+  GeocodeResult,
+  LatLng,
+  MapInstance,
+  MapMarker,
+  MapPolyline,
+  MapProvider,
+  MarkerOptions,
+  PolylineOptions,
+} from "./types";
+import { createMarkerElement, getMarkerSize } from "./markerElement";
+
+const TILE_URL = "https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png";
+const TILE_ATTRIBUTION =
+  '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors';
+const NOMINATIM_URL = "https://nominatim.openstreetmap.org/search";
+
+interface NominatimResult {
+  lat: string;
+  lon: string;
+  display_name: string;
+  // 30 is a building, 26-27 a street, lower values are areas
+  place_rank: number;
+}
+
+const getConfidence = (result: NominatimResult) => {
+  if (result.place_rank >= 30) return GeocodeConfidence.HIGH;
+  if (result.place_rank >= 26) return GeocodeConfidence.MEDIUM;
+  return GeocodeConfidence.LOW;
+};
+
+const toLatLng = (latLng: L.LatLng): LatLng => ({
+  lat: latLng.lat,
+  lng: latLng.lng,
+});
+
+const createIcon = (options: MarkerOptions) => {
+  const size = getMarkerSize(options);
+  return L.divIcon({
+    html: createMarkerElement(options),
+    className: "",
+    iconSize: [size, size],
+    iconAnchor: [size / 2, size / 2],
+  });
+};
+
+const createMap = (
+  element: HTMLElement,
+  options: { center: LatLng; zoom: number }
+): MapInstance => {
+  const map = L.map(element).setView(options.center, options.zoom);
+  L.tileLayer(TILE_URL, {
+    attribution: TILE_ATTRIBUTION,
+    maxZoom: 19,
+  }).addTo(map);
+
+  const addMarker = (markerOptions: MarkerOptions): MapMarker => {
+    const marker = L.marker(markerOptions.position, {
+      icon: createIcon(markerOptions),
+      title: markerOptions.title,
+      draggable: markerOptions.draggable,
+    }).addTo(map);
+
+    return {
+      setPosition: (position) => {
+        marker.setLatLng(position);
+      },
+      onClick: (callback) => {
+        marker.on("click", callback);
+      },
+      onDragEnd: (callback) => {
+        marker.on("dragend", () => callback(toLatLng(marker.getLatLng())));
+      },
+      remove: () => {
+        marker.remove();
+      },
+    };
+  };
+
+  const addPolyline = (polylineOptions: PolylineOptions): MapPolyline => {
+    const polyline = L.polyline(polylineOptions.path, {
+      color: polylineOptions.color,
+      weight: polylineOptions.weight || 4,
+      opacity: 1,
+    }).addTo(map);
+
+    return {
+      onClick: (callback) => {
+        polyline.on("click", callback);
+      },
+      remove: () => {
+        polyline.remove();
+      },
+    };
+  };
+
+  return {
+    setCenter: (position, zoom) => {
+      map.setView(position, zoom ?? map.getZoom());
+    },
+    fitBounds: (points) => {
+      if (points.length === 0) return;
+      map.fitBounds(L.latLngBounds(points), { padding: [40, 40] });
+    },
+    addMarker,
+    addPolyline,
+    openInfoWindow: (position, html) => {
+      L.popup().setLatLng(position).setContent(html).openOn(map);
+    },
+    onClick: (callback) => {
+      map.on("click", (event: L.LeafletMouseEvent) =>
+        callback(toLatLng(event.latlng))
+      );
+    },
+    destroy: () => {
+      map.remove();
+    },
+  };
+};
+
+export const leafletProvider: MapProvider = {
+  id: "leaflet",
+  name: "OpenStreetMap",
+  // Nominatim's usage policy allows at most one request per second
+  geocodeIntervalMs: 1100,
+  load: () => Promise.resolve(),
+  createMap,
+  geocode: async (address) => {
+    const params = new URLSearchParams({
+      q: address,
+      format: "jsonv2",
+      limit: "5",
+    });
+    const response = await fetch(`${NOMINATIM_URL}?${params}`, {
+      headers: { Accept: "application/json" },
+    });
+    if (!response.ok) {
+      throw new Error(`Geocoding failed with status ${response.status}`);
+    }
+    const results: NominatimResult[] = await response.json();
+    return results.map(
+      (result): GeocodeResult => ({
+        position: { lat: Number(result.lat), lng: Number(result.lon) },
+        formattedAddress: result.display_name,
+        confidence: getConfidence(result),
+      })
+    );
+  },
+};
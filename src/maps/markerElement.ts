@@ -0,0 +1,32 @@
+import { MarkerOptions } from "./types";
+
+const DEFAULT_COLOR = "#d32f2f";
+const DEFAULT_SIZE = 24;
+
+export const getMarkerSize = (options: MarkerOptions) =>
+  options.size || DEFAULT_SIZE;
+
+// Round, optionally numbered marker shared by all providers so routes look
+// the same whichever map is in use
+export const createMarkerElement = (options: MarkerOptions): HTMLElement => {
+  const size = getMarkerSize(options);
+  const element = document.createElement("div");
+  element.style.cssText = `
+    width: ${size}px;
+    height: ${size}px;
+    border-radius: 50%;
+    background: ${options.color || DEFAULT_COLOR};
+    border: 2px solid #FFFFFF;
+    box-shadow: 0 1px 4px rgba(0,0,0,0.4);
+    box-sizing: border-box;
+    color: white;
+    font: bold 12px Arial, sans-serif;
+    display: flex;
+    align-items: center;
+    justify-content: center;
+  `;
+  if (options.label) {
+    element.textContent = options.label;
+  }
+  return element;
+};
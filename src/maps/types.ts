@@ -0,0 +1,66 @@
+import { LatLng } from "../utils/geo";
+
+export type { LatLng };
+
+export interface MarkerOptions {
+  position: LatLng;
+  title?: string;
+  label?: string;
+  color?: string;
+  // Diameter in pixels
+  size?: number;
+  draggable?: boolean;
+}
+
+export interface MapMarker {
+  setPosition: (position: LatLng) => void;
+  onClick: (callback: () => void) => void;
+  onDragEnd: (callback: (position: LatLng) => void) => void;
+  remove: () => void;
+}
+
+export interface PolylineOptions {
+  path: LatLng[];
+  color: string;
+  weight?: number;
+}
+
+export interface MapPolyline {
+  onClick: (callback: () => void) => void;
+  remove: () => void;
+}
+
+export interface MapInstance {
+  setCenter: (position: LatLng, zoom?: number) => void;
+  fitBounds: (points: LatLng[]) => void;
+  addMarker: (options: MarkerOptions) => MapMarker;
+  addPolyline: (options: PolylineOptions) => MapPolyline;
+  openInfoWindow: (position: LatLng, html: string) => void;
+  onClick: (callback: (position: LatLng) => void) => void;
+  destroy: () => void;
+}
+
+export enum GeocodeConfidence {
+  HIGH = "high",
+  MEDIUM = "medium",
+  LOW = "low",
+}
+
+export interface GeocodeResult {
+  position: LatLng;
+  formattedAddress: string;
+  confidence: GeocodeConfidence;
+}
+
+export interface MapProvider {
+  id: "google" | "leaflet";
+  name: string;
+  // Minimum delay between geocoding requests allowed by the service
+  geocodeIntervalMs: number;
+  load: () => Promise<void>;
+  createMap: (
+    element: HTMLElement,
+    options: { center: LatLng; zoom: number }
+  ) => MapInstance;
+  geocode: (address: string) => Promise<GeocodeResult[]>;
+}
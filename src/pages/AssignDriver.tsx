@@ -1,20 +1,62 @@
-import React, { useState, useEffect, useCallback } from "react";
+import React, { useState, useEffect, useCallback, useMemo } from "react";
 import {
   Box,
   Paper,
   Typography,
   Stack,
-  List,
-  ListItem,
-  ListItemText,
   Button,
   CircularProgress,
   Autocomplete,
   TextField,
   Snackbar,
   Alert,
+  Checkbox,
+  FormControlLabel,
 } from "@mui/material";
+import { DatePicker } from "@mui/x-date-pickers/DatePicker";
+import { LocalizationProvider } from "@mui/x-date-pickers/LocalizationProvider";
+import { AdapterDateFns } from "@mui/x-date-pickers/AdapterDateFns";
+import { format } from "date-fns";
+import {
+  AutoAwesome as AutoAssignIcon,
+  ArrowForward as AssignIcon,
+  ArrowBack as UnassignIcon,
+  SwapHoriz as TransferIcon,
+} from "@mui/icons-material";
 import api from "../utils/axios";
+import {
+  DriverConflict,
+  getDriverConflicts,
+  getDriverUnavailability,
+  getDeliveriesOn,
+  VacationOutcome,
+} from "../utils/vacation";
+import {
+  DriverCapacity,
+  LoadItem,
+  addLoadTotals,
+  getCapacityIssues,
+  getCapacityUsage,
+  getLoadTotals,
+  isWorkingDay,
+} from "../utils/capacity";
+import {
+  OrderFilters,
+  emptyOrderFilters,
+  filterOrders,
+} from "../utils/orderFilters";
+import { useVacationPolicy } from "../context/VacationPolicyContext";
+import VacationPolicySelect from "../components/VacationPolicySelect";
+import DriverAvailabilityChip from "../components/DriverAvailabilityChip";
+import DriverConflictDialog from "../components/DriverConflictDialog";
+import CapacityBars from "../components/CapacityBars";
+import CapacityWarningDialog from "../components/CapacityWarningDialog";
+import AutoAssignDialog from "../components/AutoAssignDialog";
+import AssignOrderList from "../components/AssignOrderList";
+import TransferOrdersDialog from "../components/TransferOrdersDialog";
+import OrderFilterBar from "../components/OrderFilterBar";
+import OrdersMiniMap from "../components/OrdersMiniMap";
+import { Depot } from "../types/depot";
 
 interface Order {
   _id: string;
@@ -28,15 +70,21 @@ interface Order {
     city: string;
     email?: string;
     mobileNumber?: string;
+    status: string;
+    vacationStartDate?: string | null;
+    vacationEndDate?: string | null;
+    latitude?: number;
+    longitude?: number;
   };
   startDate?: string;
   endDate?: string;
   frequency?: string;
   status: string;
   createdAt: string;
+  items?: LoadItem[];
 }
 
-interface Driver {
+interface Driver extends DriverCapacity {
   _id: string;
   driverNumber: string;
   name: string;
@@ -49,6 +97,7 @@ interface Driver {
   status: string;
   vacationStartDate?: string;
   vacationEndDate?: string;
+  homeDepot?: string | Depot | null;
 }
 
 const AssignDriver: React.FC = () => {
@@ -57,6 +106,20 @@ const AssignDriver: React.FC = () => {
   const [loading, setLoading] = useState(true);
   const [selectedDriver, setSelectedDriver] = useState<Driver | null>(null);
   const [selectedOrders, setSelectedOrders] = useState<string[]>([]);
+  const { policy, setPolicy } = useVacationPolicy();
+  const [deliveryDate, setDeliveryDate] = useState<Date | null>(new Date());
+  const [conflicts, setConflicts] = useState<DriverConflict<Order>[]>([]);
+  const [driverOrders, setDriverOrders] = useState<Order[]>([]);
+  const [capacityIssues, setCapacityIssues] = useState<string[]>([]);
+  const [autoAssignOpen, setAutoAssignOpen] = useState(false);
+  const [selectedDriverOrders, setSelectedDriverOrders] = useState<string[]>(
+    []
+  );
+  const [transferOpen, setTransferOpen] = useState(false);
+  const [filters, setFilters] = useState<OrderFilters>(emptyOrderFilters);
+  // Driver receiving a transfer while its conflict or capacity dialog is
+  // open
+  const [transferTarget, setTransferTarget] = useState<Driver | null>(null);
   const [snackbar, setSnackbar] = useState<{
     open: boolean;
     message: string;
@@ -95,19 +158,117 @@ const AssignDriver: React.FC = () => {
     fetchData();
   }, [fetchData]);
 
+  // The driver's existing orders, to show how full the delivery day is
+  const fetchDriverOrders = useCallback(async () => {
+    if (!selectedDriver) {
+      setDriverOrders([]);
+      return;
+    }
+    try {
+      const response = await api.get<Order[]>(
+        `/orders?driver=${selectedDriver._id}&allOrders=true`
+      );
+      setDriverOrders(response.data);
+    } catch (error) {
+      // Error will be automatically shown by axios interceptor
+    }
+  }, [selectedDriver]);
+
+  useEffect(() => {
+    fetchDriverOrders();
+  }, [fetchDriverOrders]);
+
+  // Orders that deliver on the delivery day
+  const getDelivering = useCallback(
+    (orders: Order[]) =>
+      getDeliveriesOn(orders, deliveryDate || new Date(), policy)
+        .filter((delivery) => delivery.vacation !== VacationOutcome.SKIPPED)
+        .map((delivery) => delivery.order),
+    [deliveryDate, policy]
+  );
+
+  // Current load of the delivery day plus the selected orders that deliver
+  // on it
+  const dayLoad = useMemo(() => {
+    const current = getLoadTotals(getDelivering(driverOrders));
+    const added = getDelivering(
+      unassignedOrders.filter((order) => selectedOrders.includes(order._id))
+    );
+    return {
+      current,
+      added: added.length,
+      projected: addLoadTotals(current, getLoadTotals(added)),
+    };
+  }, [getDelivering, driverOrders, unassignedOrders, selectedOrders]);
+
+  const filteredOrders = useMemo(
+    () => filterOrders(unassignedOrders, filters),
+    [unassignedOrders, filters]
+  );
+  const filteredIds = filteredOrders.map((order) => order._id);
+  const selectedFilteredCount = filteredIds.filter((id) =>
+    selectedOrders.includes(id)
+  ).length;
+
+  // Selections hidden by the filters are kept
+  const handleSelectAllFiltered = () => {
+    setSelectedOrders((prev) =>
+      selectedFilteredCount === filteredIds.length
+        ? prev.filter((id) => !filteredIds.includes(id))
+        : Array.from(new Set([...prev, ...filteredIds]))
+    );
+  };
+
   const handleDriverSelect = (
     _event: React.SyntheticEvent,
     value: Driver | null
   ) => {
     setSelectedDriver(value);
+    setSelectedDriverOrders([]);
   };
 
+  const toggleId = (ids: string[], id: string) =>
+    ids.includes(id) ? ids.filter((other) => other !== id) : [...ids, id];
+
   const handleOrderSelect = (orderId: string) => {
-    setSelectedOrders((prev) =>
-      prev.includes(orderId)
-        ? prev.filter((id) => id !== orderId)
-        : [...prev, orderId]
+    setSelectedOrders((prev) => toggleId(prev, orderId));
+  };
+
+  const handleDriverOrderSelect = (orderId: string) => {
+    setSelectedDriverOrders((prev) => toggleId(prev, orderId));
+  };
+
+  const assignOrders = async () => {
+    if (!selectedDriver) return;
+
+    try {
+      await api.post("/orders/assign-driver", {
+        driverId: selectedDriver._id,
+        orderIds: selectedOrders,
+      });
+      showSnackbar("Orders assigned successfully", "success");
+      setSelectedOrders([]);
+      fetchData();
+      fetchDriverOrders();
+    } catch (error) {
+      // Error will be automatically shown by axios interceptor
+    }
+  };
+
+  const checkCapacityAndAssign = async () => {
+    if (!selectedDriver) return;
+
+    const issues = getCapacityIssues(
+      selectedDriver,
+      dayLoad.projected,
+      deliveryDate || new Date()
     );
+    if (issues.length > 0) {
+      setCapacityIssues(issues);
+      return;
+    }
+
+    await assignOrders();
   };
 
   const handleAssign = async () => {
@@ -116,20 +277,113 @@ const AssignDriver: React.FC = () => {
       return;
     }
 
+    const driverConflicts = getDriverConflicts(
+      selectedDriver,
+      unassignedOrders.filter((order) => selectedOrders.includes(order._id)),
+      deliveryDate || new Date()
+    );
+    if (driverConflicts.length > 0) {
+      setConflicts(driverConflicts);
+      return;
+    }
+
+    await checkCapacityAndAssign();
+  };
+
+  const handleUnassign = async () => {
+    try {
+      await Promise.all(
+        selectedDriverOrders.map((orderId) =>
+          api.patch(`/orders/${orderId}`, { assignedDriver: null })
+        )
+      );
+      showSnackbar(
+        `${selectedDriverOrders.length} order(s) moved back to unassigned`,
+        "success"
+      );
+    } catch (error) {
+      // Error will be automatically shown by axios interceptor
+    } finally {
+      setSelectedDriverOrders([]);
+      fetchData();
+      fetchDriverOrders();
+    }
+  };
+
+  const getTransferOrders = () =>
+    selectedDriverOrders.length > 0
+      ? driverOrders.filter((order) => selectedDriverOrders.includes(order._id))
+      : driverOrders;
+
+  const transferOrders = async (target: Driver) => {
+    const orderIds = getTransferOrders().map((order) => order._id);
+    setTransferTarget(null);
+
     try {
       await api.post("/orders/assign-driver", {
-        driverId: selectedDriver._id,
-        orderIds: selectedOrders,
+        driverId: target._id,
+        orderIds,
       });
-      showSnackbar("Orders assigned successfully", "success");
-      setSelectedDriver(null);
-      setSelectedOrders([]);
-      fetchData();
+      showSnackbar(
+        `${orderIds.length} order(s) transferred to ${target.name}`,
+        "success"
+      );
+      setSelectedDriverOrders([]);
+      // Follow the orders so the new driver's load is visible
+      setSelectedDriver(target);
     } catch (error) {
       // Error will be automatically shown by axios interceptor
     }
   };
 
+  // Same capacity check as assigning, against the receiving driver's load
+  const checkCapacityAndTransfer = async (target: Driver) => {
+    try {
+      const response = await api.get<Order[]>(
+        `/orders?driver=${target._id}&allOrders=true`
+      );
+      const projected = addLoadTotals(
+        getLoadTotals(getDelivering(response.data)),
+        getLoadTotals(getDelivering(getTransferOrders()))
+      );
+      const issues = getCapacityIssues(
+        target,
+        projected,
+        deliveryDate || new Date()
+      );
+      if (issues.length > 0) {
+        setTransferTarget(target);
+        setCapacityIssues(issues);
+        return;
+      }
+    } catch (error) {
+      // Error will be automatically shown by axios interceptor
+      // Drop the target so a later assign does not pick up this transfer
+      setTransferTarget(null);
+      setCapacityIssues([]);
+      return;
+    }
+
+    await transferOrders(target);
+  };
+
+  const handleTransfer = async (target: Driver) => {
+    setTransferOpen(false);
+
+    const driverConflicts = getDriverConflicts(
+      target,
+      getTransferOrders(),
+      deliveryDate || new Date()
+    );
+    if (driverConflicts.length > 0) {
+      setTransferTarget(target);
+      setConflicts(driverConflicts);
+      return;
+    }
+
+    await checkCapacityAndTransfer(target);
+  };
+
   if (loading) {
     return (
       <Box
@@ -145,14 +399,33 @@ const AssignDriver: React.FC = () => {
 
   return (
     <Box p={3}>
-      <Typography variant="h4" gutterBottom>
-        Assign Orders to Drivers
-      </Typography>
+      <Box
+        sx={{
+          display: "flex",
+          justifyContent: "space-between",
+          alignItems: "center",
+          mb: 1,
+        }}
+      >
+        <Typography variant="h4">Assign Orders to Drivers</Typography>
+        <Button
+          variant="outlined"
+          startIcon={<AutoAssignIcon />}
+          onClick={() => setAutoAssignOpen(true)}
+          disabled={unassignedOrders.length === 0}
+        >
+          Auto-assign
+        </Button>
+      </Box>
       <Stack spacing={3}>
         {/* Driver Selection */}
-        <Paper elevation={3} sx={{ p: 2 }}>
+        <Paper
+          elevation={3}
+          sx={{ p: 2, display: "flex", gap: 2, alignItems: "flex-start" }}
+        >
           <Autocomplete
             id="driver-select"
+            sx={{ flex: 1 }}
             options={drivers}
             getOptionLabel={(option) =>
               `${option.name} (Driver #${option.driverNumber})`
@@ -169,12 +442,26 @@ const AssignDriver: React.FC = () => {
             )}
             renderOption={(props, option) => {
               const { key, ...otherProps } = props;
+              const unavailability = getDriverUnavailability(
+                option,
+                deliveryDate || new Date()
+              );
               return (
-                <li key={key} {...otherProps}>
+                <li
+                  key={key}
+                  {...otherProps}
+                  style={unavailability ? { opacity: 0.5 } : undefined}
+                >
                   <Box>
-                    <Typography variant="body1" fontWeight="bold">
-                      {option.name}
-                    </Typography>
+                    <Box sx={{ display: "flex", alignItems: "center", gap: 1 }}>
+                      <Typography variant="body1" fontWeight="bold">
+                        {option.name}
+                      </Typography>
+                      <DriverAvailabilityChip
+                        driver={option}
+                        unavailability={unavailability}
+                      />
+                    </Box>
                     <Typography variant="body2" color="text.secondary">
                       Driver #{option.driverNumber}
                     </Typography>
@@ -212,128 +499,169 @@ const AssignDriver: React.FC = () => {
               });
             }}
           />
+          <LocalizationProvider dateAdapter={AdapterDateFns}>
+            <DatePicker
+              label="Delivery Date"
+              value={deliveryDate}
+              onChange={(newDate) => setDeliveryDate(newDate)}
+            />
+          </LocalizationProvider>
         </Paper>
 
-        {/* Unassigned Orders */}
-        <Paper elevation={3} sx={{ p: 2 }}>
-          <Typography variant="h6" gutterBottom>
-            Unassigned Orders
-          </Typography>
-          {unassignedOrders.length === 0 ? (
-            <Typography color="text.secondary" align="center" sx={{ py: 2 }}>
-              No unassigned orders available
+        {/* Capacity of the selected driver on the delivery day */}
+        {selectedDriver && (
+          <Paper elevation={3} sx={{ p: 2 }}>
+            <Typography variant="subtitle1" gutterBottom>
+              Capacity on {format(deliveryDate || new Date(), "EEEE, MMM d")}
+              {!isWorkingDay(selectedDriver, deliveryDate || new Date()) &&
+                " (not a working day)"}
             </Typography>
-          ) : (
-            <List>
-              {unassignedOrders.map((order) => (
-                <ListItem
-                  key={order._id}
-                  sx={{
-                    mb: 1,
-                    bgcolor: selectedOrders.includes(order._id)
-                      ? "action.selected"
-                      : "background.paper",
-                    borderRadius: 1,
-                    boxShadow: 1,
-                    cursor: "pointer",
-                    "&:hover": {
-                      bgcolor: "action.hover",
-                    },
-                  }}
-                  onClick={() => handleOrderSelect(order._id)}
-                >
-                  <ListItemText
-                    primary={
-                      <>
-                        <Typography variant="subtitle1" fontWeight="bold">
-                          Order #{order.orderNumber}
-                        </Typography>
-                        <Typography variant="subtitle2" color="primary">
-                          {order.customer.name}
-                        </Typography>
-                        <Typography variant="body2" color="text.secondary">
-                          {order.startDate && (
-                            <>
-                              <strong>Delivery:</strong>{" "}
-                              {new Date(order.startDate).toLocaleDateString(
-                                "en-US",
-                                {
-                                  weekday: "short",
-                                  year: "numeric",
-                                  month: "short",
-                                  day: "numeric",
-                                }
-                              )}
-                              {order.frequency && (
-                                <>
-                                  {" "}
-                                  •{" "}
-                                  {order.frequency.charAt(0).toUpperCase() +
-                                    order.frequency.slice(1)}
-                                </>
-                              )}
-                            </>
-                          )}
-                        </Typography>
-                      </>
+            <CapacityBars
+              usage={getCapacityUsage(selectedDriver, dayLoad.projected)}
+            />
+            {dayLoad.added > 0 && (
+              <Typography
+                variant="caption"
+                color="text.secondary"
+                sx={{ display: "block", mt: 1 }}
+              >
+                Including {dayLoad.added} selected order(s) delivering on this
+                day
+              </Typography>
+            )}
+          </Paper>
+        )}
+
+        <Box
+          sx={{
+            display: "grid",
+            gridTemplateColumns: { xs: "1fr", md: "1fr 1fr" },
+            gap: 3,
+            alignItems: "start",
+          }}
+        >
+          {/* Unassigned Orders */}
+          <Paper elevation={3} sx={{ p: 2 }}>
+            <Box
+              sx={{
+                display: "flex",
+                justifyContent: "space-between",
+                alignItems: "center",
+                mb: 1,
+              }}
+            >
+              <Typography variant="h6">
+                Unassigned Orders ({filteredOrders.length}
+                {filteredOrders.length !== unassignedOrders.length &&
+                  ` of ${unassignedOrders.length}`}
+                )
+              </Typography>
+              <VacationPolicySelect value={policy} onChange={setPolicy} />
+            </Box>
+            <OrderFilterBar filters={filters} onChange={setFilters} />
+            <OrdersMiniMap
+              orders={filteredOrders}
+              selectedIds={selectedOrders}
+              onToggle={handleOrderSelect}
+            />
+            <Box
+              sx={{
+                display: "flex",
+                justifyContent: "space-between",
+                alignItems: "center",
+              }}
+            >
+              <FormControlLabel
+                control={
+                  <Checkbox
+                    checked={
+                      filteredIds.length > 0 &&
+                      selectedFilteredCount === filteredIds.length
                     }
-                    secondary={
-                      <>
-                        <Typography
-                          variant="body2"
-                          component="span"
-                          display="block"
-                        >
-                          <strong>Address:</strong> {order.customer.street}{" "}
-                          {order.customer.houseNumber},{" "}
-                          {order.customer.postalCode} {order.customer.city}
-                        </Typography>
-                        <Typography
-                          variant="body2"
-                          component="span"
-                          display="block"
-                        >
-                          <strong>Customer #:</strong>{" "}
-                          {order.customer.customerNumber}
-                        </Typography>
-                        {order.customer.email && (
-                          <Typography
-                            variant="body2"
-                            component="span"
-                            display="block"
-                          >
-                            <strong>Email:</strong> {order.customer.email}
-                          </Typography>
-                        )}
-                        {order.customer.mobileNumber && (
-                          <Typography
-                            variant="body2"
-                            component="span"
-                            display="block"
-                          >
-                            <strong>Phone:</strong>{" "}
-                            {order.customer.mobileNumber}
-                          </Typography>
-                        )}
-                      </>
+                    indeterminate={
+                      selectedFilteredCount > 0 &&
+                      selectedFilteredCount < filteredIds.length
                     }
+                    onChange={handleSelectAllFiltered}
+                    disabled={filteredIds.length === 0}
                   />
-                </ListItem>
-              ))}
-            </List>
-          )}
-        </Paper>
+                }
+                label="Select all filtered"
+              />
+              <Typography variant="body2" color="text.secondary">
+                {selectedOrders.length} selected
+              </Typography>
+            </Box>
+            <Button
+              variant="contained"
+              color="primary"
+              endIcon={<AssignIcon />}
+              onClick={handleAssign}
+              disabled={!selectedDriver || selectedOrders.length === 0}
+              fullWidth
+              sx={{ mb: 1 }}
+            >
+              Assign Selected Orders
+            </Button>
+            <AssignOrderList
+              orders={filteredOrders}
+              selectedIds={selectedOrders}
+              onToggle={handleOrderSelect}
+              policy={policy}
+              emptyText={
+                unassignedOrders.length === 0
+                  ? "No unassigned orders available"
+                  : "No orders match the filters"
+              }
+            />
+          </Paper>
 
-        {/* Assign Button */}
-        <Button
-          variant="contained"
-          color="primary"
-          onClick={handleAssign}
-          disabled={!selectedDriver || selectedOrders.length === 0}
-          fullWidth
-        >
-          Assign Selected Orders
-        </Button>
+          {/* Orders of the selected driver */}
+          <Paper elevation={3} sx={{ p: 2 }}>
+            <Typography variant="h6" sx={{ mb: 1 }}>
+              {selectedDriver
+                ? `${selectedDriver.name}'s Orders (${driverOrders.length})`
+                : "Driver's Orders"}
+            </Typography>
+            {selectedDriver ? (
+              <>
+                <Stack direction="row" spacing={1} sx={{ mb: 1 }}>
+                  <Button
+                    variant="outlined"
+                    startIcon={<UnassignIcon />}
+                    onClick={handleUnassign}
+                    disabled={selectedDriverOrders.length === 0}
+                    sx={{ flex: 1 }}
+                  >
+                    Unassign Selected
+                  </Button>
+                  <Button
+                    variant="outlined"
+                    startIcon={<TransferIcon />}
+                    onClick={() => setTransferOpen(true)}
+                    disabled={driverOrders.length === 0}
+                    sx={{ flex: 1 }}
+                  >
+                    {selectedDriverOrders.length > 0
+                      ? "Transfer Selected"
+                      : "Transfer All"}
+                  </Button>
+                </Stack>
+                <AssignOrderList
+                  orders={driverOrders}
+                  selectedIds={selectedDriverOrders}
+                  onToggle={handleDriverOrderSelect}
+                  policy={policy}
+                  emptyText="No orders assigned to this driver"
+                />
+              </>
+            ) : (
+              <Typography color="text.secondary" align="center" sx={{ py: 2 }}>
+                Select a driver to see their orders
+              </Typography>
+            )}
+          </Paper>
+        </Box>
       </Stack>
 
       <Snackbar
@@ -350,6 +678,70 @@ const AssignDriver: React.FC = () => {
           {snackbar.message}
         </Alert>
       </Snackbar>
+
+      <DriverConflictDialog
+        open={conflicts.length > 0}
+        driver={transferTarget || selectedDriver}
+        conflicts={conflicts}
+        onCancel={() => {
+          setConflicts([]);
+          setTransferTarget(null);
+        }}
+        onConfirm={() => {
+          setConflicts([]);
+          if (transferTarget) {
+            checkCapacityAndTransfer(transferTarget);
+          } else {
+            checkCapacityAndAssign();
+          }
+        }}
+      />
+
+      <TransferOrdersDialog
+        open={transferOpen}
+        fromDriver={selectedDriver}
+        drivers={drivers}
+        orderCount={getTransferOrders().length}
+        selectionOnly={selectedDriverOrders.length > 0}
+        date={deliveryDate || new Date()}
+        onCancel={() => setTransferOpen(false)}
+        onConfirm={handleTransfer}
+      />
+
+      <AutoAssignDialog
+        open={autoAssignOpen}
+        orders={unassignedOrders}
+        drivers={drivers}
+        from={deliveryDate || new Date()}
+        policy={policy}
+        onClose={() => setAutoAssignOpen(false)}
+        onApplied={(count) => {
+          setAutoAssignOpen(false);
+          showSnackbar(`${count} order(s) assigned`, "success");
+          setSelectedOrders([]);
+          fetchData();
+          fetchDriverOrders();
+        }}
+      />
+
+      <CapacityWarningDialog
+        open={capacityIssues.length > 0}
+        driverName={(transferTarget || selectedDriver)?.name || ""}
+        issues={capacityIssues}
+        blocked={!!(transferTarget || selectedDriver)?.blockOverCapacity}
+        onCancel={() => {
+          setCapacityIssues([]);
+          setTransferTarget(null);
+        }}
+        onConfirm={() => {
+          setCapacityIssues([]);
+          if (transferTarget) {
+            transferOrders(transferTarget);
+          } else {
+            assignOrders();
+          }
+        }}
+      />
     </Box>
   );
 };
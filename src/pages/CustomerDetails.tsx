@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback } from "react";
+import React, { useState, useEffect, useCallback, useMemo } from "react";
 import {
   Box,
   Paper,
@@ -19,8 +19,13 @@ import {
   Visibility as VisibilityIcon,
 } from "@mui/icons-material";
 import { useParams, useNavigate } from "react-router-dom";
+import { addWeeks } from "date-fns";
 import api from "../utils/axios";
+import { getOccurrences } from "../utils/recurrence";
+import { isDeliveringStatus } from "../utils/orderStatus";
 import { Customer as CustomerType } from "../types/customer";
+import { Delivery } from "../types/delivery";
+import DeliveryHistory from "../components/DeliveryHistory";
 
 enum OrderStatus {
   PENDING = "pending",
@@ -36,6 +41,7 @@ interface Order {
   status: OrderStatus;
   startDate: string;
   endDate?: string;
+  frequency?: string;
   totalNetAmount: number;
   totalGrossAmount: number;
 }
@@ -52,6 +58,9 @@ const statusColors = {
   [OrderStatus.PAUSED]: "default",
 } as const;
 
+const UPCOMING_WEEKS = 8;
+const MAX_UPCOMING_DELIVERIES = 10;
+
 const CustomerDetails: React.FC = () => {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
@@ -59,10 +68,12 @@ const CustomerDetails: React.FC = () => {
   const [orders, setOrders] = useState<Order[]>([]);
   const [loading, setLoading] = useState(true);
   const [ordersLoading, setOrdersLoading] = useState(true);
+  const [deliveries, setDeliveries] = useState<Delivery[]>([]);
 
   useEffect(() => {
     fetchCustomer();
     fetchCustomerOrders();
+    fetchDeliveries();
   }, [id]);
 
   const fetchCustomer = useCallback(async () => {
@@ -82,9 +93,32 @@ const CustomerDetails: React.FC = () => {
       setOrders(response.data);
     } catch (error) {
       // Error will be automatically shown by axios interceptor
+    } finally {
+      setOrdersLoading(false);
     }
   }, [id]);
 
+  const fetchDeliveries = useCallback(async () => {
+    try {
+      const response = await api.get<Delivery[]>(`/deliveries?customer=${id}`);
+      setDeliveries(response.data);
+    } catch (error) {
+      // Error will be automatically shown by axios interceptor
+    }
+  }, [id]);
+
+  const upcomingDeliveries = useMemo(() => {
+    const today = new Date();
+    const horizon = addWeeks(today, UPCOMING_WEEKS);
+    return orders
+      .filter((order) => isDeliveringStatus(order.status))
+      .flatMap((order) =>
+        getOccurrences(order, today, horizon).map((date) => ({ date, order }))
+      )
+      .sort((a, b) => a.date.getTime() - b.date.getTime())
+      .slice(0, MAX_UPCOMING_DELIVERIES);
+  }, [orders]);
+
   if (loading) {
     return (
       <Box
@@ -241,6 +275,68 @@ const CustomerDetails: React.FC = () => {
           </Box>
         </Paper>
 
+        <Paper sx={{ p: 3 }}>
+          <Typography variant="h5" gutterBottom sx={{ mb: 3 }}>
+            Upcoming Deliveries
+          </Typography>
+          {ordersLoading ? (
+            <Box sx={{ display: "flex", justifyContent: "center", p: 3 }}>
+              <CircularProgress />
+            </Box>
+          ) : upcomingDeliveries.length === 0 ? (
+            <Typography color="text.secondary">
+              No deliveries scheduled in the next {UPCOMING_WEEKS} weeks
+            </Typography>
+          ) : (
+            <TableContainer>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Delivery Date</TableCell>
+                    <TableCell>Order Number</TableCell>
+                    <TableCell>Frequency</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {upcomingDeliveries.map(({ date, order }) => (
+                    <TableRow
+                      key={`${order._id}-${date.getTime()}`}
+                      hover
+                      onClick={() =>
+                        navigate(`/orders/${order._id}`, {
+                          state: { from: "customer" },
+                        })
+                      }
+                      sx={{ cursor: "pointer" }}
+                    >
+                      <TableCell>{date.toLocaleDateString()}</TableCell>
+                      <TableCell>{order.orderNumber}</TableCell>
+                      <TableCell>
+                        {order.frequency
+                          ? order.frequency.replace("_", " ").toUpperCase()
+                          : "ONCE"}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          )}
+        </Paper>
+
+        <Paper sx={{ p: 3 }}>
+          <Typography variant="h5" gutterBottom sx={{ mb: 3 }}>
+            Delivery History
+          </Typography>
+          <DeliveryHistory
+            deliveries={deliveries}
+            showOrder
+            onOrderClick={(orderId) =>
+              navigate(`/orders/${orderId}`, { state: { from: "customer" } })
+            }
+          />
+        </Paper>
+
         <Paper sx={{ p: 3 }}>
           <Typography variant="h5" gutterBottom sx={{ mb: 3 }}>
             Recent Orders
@@ -25,22 +25,28 @@ import {
   Delete as DeleteIcon,
   Visibility as ViewIcon,
   LocationOn as LocationIcon,
+  TravelExplore as GeocodeIcon,
 } from "@mui/icons-material";
 import { DataGrid, GridColDef, GridRenderCellParams } from "@mui/x-data-grid";
 import api from "../utils/axios";
 import { Customer, CustomerStatus } from "../types/customer";
 import { useDebounce } from "../hooks/useDebounce";
 import { useErrorHandler } from "../hooks/useErrorHandler";
+import { usePermissions } from "../hooks/usePermissions";
+import { Permission } from "../utils/permissions";
 import ErrorAlert from "../components/ErrorAlert";
-import GoogleMapPicker from "../components/GoogleMapPicker";
+import MapPicker from "../components/MapPicker";
+import GeocodeMissingDialog from "../components/GeocodeMissingDialog";
 
 const Customers: React.FC = () => {
   const navigate = useNavigate();
   const { error, handleError, clearError } = useErrorHandler();
+  const { can } = usePermissions();
   const [customers, setCustomers] = useState<Customer[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchQuery, setSearchQuery] = useState("");
   const [openDialog, setOpenDialog] = useState(false);
+  const [openGeocodeDialog, setOpenGeocodeDialog] = useState(false);
   const [selectedCustomer, setSelectedCustomer] = useState<Customer | null>(
     null
   );
@@ -229,25 +235,29 @@ const Customers: React.FC = () => {
             >
               <ViewIcon />
             </IconButton>
-            <IconButton
-              size="small"
-              onClick={() => handleOpenDialog(params.row as Customer)}
-              color="primary"
-            >
-              <EditIcon />
-            </IconButton>
-            <IconButton
-              size="small"
-              onClick={() => handleDelete(params.row._id)}
-              color="error"
-            >
-              <DeleteIcon />
-            </IconButton>
+            {can(Permission.EDIT_CUSTOMERS) && (
+              <IconButton
+                size="small"
+                onClick={() => handleOpenDialog(params.row as Customer)}
+                color="primary"
+              >
+                <EditIcon />
+              </IconButton>
+            )}
+            {can(Permission.DELETE_CUSTOMERS) && (
+              <IconButton
+                size="small"
+                onClick={() => handleDelete(params.row._id)}
+                color="error"
+              >
+                <DeleteIcon />
+              </IconButton>
+            )}
           </Box>
         ),
       },
     ],
-    [handleOpenDialog, handleDelete, handleViewDetails]
+    [handleOpenDialog, handleDelete, handleViewDetails, can]
   );
 
   const filteredCustomers = useMemo(
@@ -260,6 +270,13 @@ const Customers: React.FC = () => {
     [customers, searchQuery]
   );
 
+  const missingLocationCount = useMemo(
+    () =>
+      customers.filter((customer) => !customer.latitude || !customer.longitude)
+        .length,
+    [customers]
+  );
+
   return (
     <Box sx={{ height: "100%", width: "100%" }}>
       <ErrorAlert error={error} onClose={clearError} />
@@ -268,13 +285,25 @@ const Customers: React.FC = () => {
         <Typography variant="h5" component="h1">
           Customers
         </Typography>
-        <Button
-          variant="contained"
-          startIcon={<AddIcon />}
-          onClick={() => handleOpenDialog()}
-        >
-          Add Customer
-        </Button>
+        {can(Permission.EDIT_CUSTOMERS) && (
+          <Box sx={{ display: "flex", gap: 1 }}>
+            <Button
+              variant="outlined"
+              startIcon={<GeocodeIcon />}
+              onClick={() => setOpenGeocodeDialog(true)}
+              disabled={missingLocationCount === 0}
+            >
+              Geocode Missing ({missingLocationCount})
+            </Button>
+            <Button
+              variant="contained"
+              startIcon={<AddIcon />}
+              onClick={() => handleOpenDialog()}
+            >
+              Add Customer
+            </Button>
+          </Box>
+        )}
       </Box>
 
       <Paper sx={{ p: 2, mb: 3 }}>
@@ -476,7 +505,7 @@ const Customers: React.FC = () => {
               <LocationIcon />
               Location on Map
             </Typography>
-            <GoogleMapPicker
+            <MapPicker
               latitude={formData.latitude}
               longitude={formData.longitude}
               onLocationChange={(lat, lng) => {
@@ -504,6 +533,13 @@ const Customers: React.FC = () => {
           </Button>
         </DialogActions>
       </Dialog>
+
+      <GeocodeMissingDialog
+        open={openGeocodeDialog}
+        customers={customers}
+        onClose={() => setOpenGeocodeDialog(false)}
+        onSaved={fetchCustomers}
+      />
     </Box>
   );
 };
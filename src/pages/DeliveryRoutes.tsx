@@ -1,4 +1,10 @@
-import React, { useState, useEffect, useCallback } from "react";
+import React, {
+  useState,
+  useEffect,
+  useCallback,
+  useMemo,
+  useRef,
+} from "react";
 import {
   Box,
   Paper,
@@ -12,6 +18,11 @@ import {
   CardContent,
   Chip,
   CircularProgress,
+  Button,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
 } from "@mui/material";
 import { DatePicker } from "@mui/x-date-pickers/DatePicker";
 import { LocalizationProvider } from "@mui/x-date-pickers/LocalizationProvider";
@@ -21,14 +32,43 @@ import {
   Phone as PhoneIcon,
   Email as EmailIcon,
   Home as HomeIcon,
+  AltRoute as OptimizeIcon,
+  Print as PrintIcon,
 } from "@mui/icons-material";
 import api from "../utils/axios";
+import { getDeliveriesOn, VacationOutcome } from "../utils/vacation";
+import { useVacationPolicy } from "../context/VacationPolicyContext";
+import VacationPolicySelect from "../components/VacationPolicySelect";
+import VacationChip from "../components/VacationChip";
+import RouteOptimizationDialog from "../components/RouteOptimizationDialog";
+import RouteSummary from "../components/RouteSummary";
+import { useRouteSettings } from "../hooks/useRouteSettings";
+import {
+  LatLng,
+  formatDistance,
+  haversineDistance,
+  routeDistance,
+} from "../utils/geo";
+import { optimizeRoute } from "../utils/routeOptimizer";
+import { buildRouteSchedule } from "../utils/routeSchedule";
+import { printRouteSheet } from "../utils/routeSheet";
+import {
+  compareDeliverySequence,
+  hasCustomerLocation,
+} from "../utils/deliverySequence";
+import { useDepots } from "../context/DepotContext";
+import { Depot } from "../types/depot";
+import { useMap } from "../hooks/useMapProvider";
+import { MapMarker, MapPolyline } from "../maps";
+import UnlocatedStopsTray from "../components/UnlocatedStopsTray";
+import MapPicker from "../components/MapPicker";
 
 interface Driver {
   _id: string;
   driverNumber: string;
   name: string;
   status: string;
+  homeDepot?: string | Depot | null;
 }
 
 interface Customer {
@@ -43,6 +83,9 @@ interface Customer {
   email?: string;
   latitude: number;
   longitude: number;
+  status: string;
+  vacationStartDate?: string | null;
+  vacationEndDate?: string | null;
 }
 
 interface Order {
@@ -55,8 +98,40 @@ interface Order {
   status: string;
   assignedDriver?: Driver;
   deliverySequence?: number;
+  items: {
+    item: {
+      filterType: string;
+      length: number;
+      width: number;
+      depth: number;
+      unitOfMeasure: string;
+    };
+    quantity: number;
+  }[];
+  paymentMethod: string;
+  driverNote?: string;
+  totalGrossAmount?: number;
 }
 
+// Route colors for different segments
+const routeColors = [
+  "#FF6B6B",
+  "#4ECDC4",
+  "#45B7D1",
+  "#96CEB4",
+  "#FFEAA7",
+  "#DDA0DD",
+  "#98D8C8",
+  "#F7DC6F",
+  "#BB8FCE",
+  "#85C1E9",
+];
+
+const toPosition = (order: Order): LatLng => ({
+  lat: order.customer.latitude,
+  lng: order.customer.longitude,
+});
+
 const DeliveryRoutes: React.FC = () => {
   const [drivers, setDrivers] = useState<Driver[]>([]);
   const [selectedDriver, setSelectedDriver] = useState<Driver | null>(null);
@@ -67,10 +142,31 @@ const DeliveryRoutes: React.FC = () => {
     null
   );
   const [draggableOrder, setDraggableOrder] = useState<Order[]>([]);
+  // Orders without coordinates that have not been placed in the sequence
+  const [unlocatedOrders, setUnlocatedOrders] = useState<Order[]>([]);
+  const [pinningOrder, setPinningOrder] = useState<Order | null>(null);
+  const [pinPosition, setPinPosition] = useState<LatLng | null>(null);
   const [draggedIndex, setDraggedIndex] = useState<number | null>(null);
-
-  // Base location (Berlin)
-  const baseLocation = { lat: 52.52, lng: 13.405 };
+  const [skippedOrders, setSkippedOrders] = useState<Order[]>([]);
+  const [rescheduledFrom, setRescheduledFrom] = useState<Record<string, Date>>(
+    {}
+  );
+  const { policy, setPolicy } = useVacationPolicy();
+  const [optimizedOrder, setOptimizedOrder] = useState<Order[] | null>(null);
+  const { settings: routeSettings, updateSettings: updateRouteSettings } =
+    useRouteSettings();
+
+  const { getDepot, mapCenter } = useDepots();
+  const mapRef = useRef<HTMLDivElement | null>(null);
+  const { map } = useMap(mapRef, mapCenter, 10);
+
+  // Routes start and end at the driver's home depot
+  const depot = selectedDriver ? getDepot(selectedDriver.homeDepot) : null;
+  const baseLocation = useMemo(
+    () => (depot ? { lat: depot.latitude, lng: depot.longitude } : mapCenter),
+    [depot, mapCenter]
+  );
+  const baseName = depot ? depot.name : "Base location";
 
   // Fetch drivers
   const fetchDrivers = useCallback(async () => {
@@ -88,42 +184,51 @@ const DeliveryRoutes: React.FC = () => {
 
     try {
       setLoading(true);
-      const dateStr = `${selectedDate.getFullYear()}-${String(
-        selectedDate.getMonth() + 1
-      ).padStart(2, "0")}-${String(selectedDate.getDate()).padStart(2, "0")}`;
       const response = await api.get<Order[]>(
-        `/orders?driver=${selectedDriver._id}&date=${dateStr}&allOrders=true`
+        `/orders?driver=${selectedDriver._id}&allOrders=true`
       );
-      setOrders(response.data);
-      // New: Set draggable order to orders with coordinates, sorted by delivery sequence
-      const ordersWithCoords = response.data.filter(
-        (order) => order.customer.latitude && order.customer.longitude
+      // Keep only orders whose recurrence puts a delivery on the selected
+      // day, leaving out customers who are on vacation
+      const deliveries = getDeliveriesOn(response.data, selectedDate, policy);
+      const dayOrders = deliveries
+        .filter((delivery) => delivery.vacation !== VacationOutcome.SKIPPED)
+        .map((delivery) => delivery.order);
+      setOrders(dayOrders);
+      setSkippedOrders(
+        deliveries
+          .filter((delivery) => delivery.vacation === VacationOutcome.SKIPPED)
+          .map((delivery) => delivery.order)
+      );
+      setRescheduledFrom(
+        Object.fromEntries(
+          deliveries
+            .filter(
+              (delivery) => delivery.vacation === VacationOutcome.RESCHEDULED
+            )
+            .map((delivery) => [delivery.order._id, delivery.originalDate])
+        )
+      );
+      // Sequenced stops first, the rest by order number
+      const sortedOrders = [...dayOrders].sort(compareDeliverySequence);
+
+      // Stops without coordinates stay in the sequence once they have been
+      // placed there, the rest wait in the unlocated tray
+      setDraggableOrder(
+        sortedOrders.filter(
+          (order) => hasCustomerLocation(order) || order.deliverySequence
+        )
+      );
+      setUnlocatedOrders(
+        sortedOrders.filter(
+          (order) => !hasCustomerLocation(order) && !order.deliverySequence
+        )
       );
-
-      // Sort by delivery sequence if available, otherwise by order number
-      const sortedOrders = ordersWithCoords.sort((a, b) => {
-        if (a.deliverySequence && b.deliverySequence) {
-          return a.deliverySequence - b.deliverySequence;
-        }
-        return a.orderNumber.localeCompare(b.orderNumber);
-      });
-
-      setDraggableOrder(sortedOrders);
     } catch (error) {
       // Error will be automatically shown by axios interceptor
     } finally {
       setLoading(false);
     }
-  }, [selectedDriver, selectedDate]);
-
-  // Update draggableOrder if orders change (e.g., after fetch)
-  useEffect(() => {
-    setDraggableOrder(
-      orders.filter(
-        (order) => order.customer.latitude && order.customer.longitude
-      )
-    );
-  }, [orders]);
+  }, [selectedDriver, selectedDate, policy]);
 
   // Drag-and-drop handlers
   const handleDragStart = (index: number) => {
@@ -150,6 +255,8 @@ const DeliveryRoutes: React.FC = () => {
     saveDeliverySequence(newOrder);
   };
 
+  // Only placed stops get a sequence, which is what keeps unlocated stops
+  // in the tray until they are placed
   const saveDeliverySequence = async (newOrder: Order[]) => {
     if (!selectedDriver || !selectedDate) return;
 
@@ -176,142 +283,196 @@ const DeliveryRoutes: React.FC = () => {
     setDraggedIndex(null);
   };
 
-  // Initialize map
-  const initializeMap = useCallback(() => {
-    if (!window.google || !window.google.maps) return;
+  // Only located stops are reordered, unlocated ones keep their slot
+  const handleOptimizeRoute = () => {
+    const optimized = optimizeRoute(
+      baseLocation,
+      draggableOrder.filter(hasCustomerLocation),
+      toPosition
+    );
+    let next = 0;
+    setOptimizedOrder(
+      draggableOrder.map((order) =>
+        hasCustomerLocation(order) ? optimized[next++] : order
+      )
+    );
+  };
 
-    const mapElement = document.getElementById("delivery-map");
-    if (!mapElement) return;
+  // Covers every order of the day in the saved sequence, unplaced stops last
+  const handlePrintRouteSheet = () => {
+    if (!selectedDriver || !selectedDate) return;
 
-    const map = new window.google.maps.Map(mapElement, {
-      center: baseLocation,
-      zoom: 10,
-      mapTypeId: window.google.maps.MapTypeId.ROADMAP,
+    const stops = [...draggableOrder, ...unlocatedOrders];
+    const schedule = buildRouteSchedule(
+      baseLocation,
+      stops.filter(hasCustomerLocation).map(toPosition),
+      selectedDate,
+      routeSettings
+    );
+    let leg = 0;
+
+    printRouteSheet({
+      driverName: selectedDriver.name,
+      driverNumber: selectedDriver.driverNumber,
+      date: selectedDate,
+      baseName,
+      base: baseLocation,
+      schedule,
+      stops: stops.map((order) => ({
+        orderNumber: order.orderNumber,
+        customerNumber: order.customer.customerNumber,
+        customerName: order.customer.name,
+        address: `${order.customer.street} ${order.customer.houseNumber}, ${order.customer.postalCode} ${order.customer.city}`,
+        phone: order.customer.mobileNumber,
+        position: hasCustomerLocation(order) ? toPosition(order) : null,
+        arrival: hasCustomerLocation(order)
+          ? schedule.legs[leg++].arrival
+          : undefined,
+        items: (order.items || []).map(({ item, quantity }) => ({
+          name: `${item.filterType} (${item.length}×${item.width}×${item.depth} ${item.unitOfMeasure})`,
+          quantity,
+        })),
+        paymentMethod: order.paymentMethod,
+        driverNote: order.driverNote,
+        totalGrossAmount: order.totalGrossAmount,
+      })),
     });
+  };
 
-    // Add base location marker
-    new window.google.maps.Marker({
-      position: baseLocation,
-      map: map,
-      title: "Base Location (Berlin)",
-      icon: {
-        path: window.google.maps.SymbolPath.CIRCLE,
-        scale: 15,
-        fillColor: "#4285F4",
-        fillOpacity: 1,
-        strokeColor: "#FFFFFF",
-        strokeWeight: 3,
-      },
-    });
+  const handleInsertStop = (order: Order, index: number) => {
+    const newOrder = [...draggableOrder];
+    newOrder.splice(index, 0, order);
+    const unplaced = unlocatedOrders.filter(
+      (unlocated) => unlocated._id !== order._id
+    );
+    setDraggableOrder(newOrder);
+    setUnlocatedOrders(unplaced);
+    saveDeliverySequence(newOrder);
+  };
 
-    // Use draggableOrder for route and markers
-    const ordersWithCoords = draggableOrder;
-
-    const markers: google.maps.Marker[] = [];
-    const polylines: google.maps.Polyline[] = [];
-
-    // Route colors for different segments
-    const routeColors = [
-      "#FF6B6B",
-      "#4ECDC4",
-      "#45B7D1",
-      "#96CEB4",
-      "#FFEAA7",
-      "#DDA0DD",
-      "#98D8C8",
-      "#F7DC6F",
-      "#BB8FCE",
-      "#85C1E9",
-    ];
+  const handleOpenPinDialog = (order: Order) => {
+    setPinningOrder(order);
+    setPinPosition(null);
+  };
 
-    ordersWithCoords.forEach((order, index) => {
-      const customer = order.customer;
-      const marker = new window.google.maps.Marker({
-        position: { lat: customer.latitude, lng: customer.longitude },
-        map: map,
-        title: customer.name,
-        label: {
-          text: (index + 1).toString(),
-          color: "white",
-          fontWeight: "bold",
-        },
-        icon: {
-          path: window.google.maps.SymbolPath.CIRCLE,
-          scale: 12,
-          fillColor: "#FF6B6B",
-          fillOpacity: 1,
-          strokeColor: "#FFFFFF",
-          strokeWeight: 2,
-        },
-      });
+  const handleSavePin = async () => {
+    if (!pinningOrder || !pinPosition) return;
 
-      marker.addListener("click", () => {
-        setSelectedCustomer(customer);
+    try {
+      await api.patch(`/customers/${pinningOrder.customer._id}`, {
+        latitude: pinPosition.lat,
+        longitude: pinPosition.lng,
       });
+      const customer = {
+        ...pinningOrder.customer,
+        latitude: pinPosition.lat,
+        longitude: pinPosition.lng,
+      };
+      const pinned = { ...pinningOrder, customer };
+      const updateOrder = (order: Order) =>
+        order._id === pinned._id ? pinned : order;
+
+      setOrders((prev) => prev.map(updateOrder));
+      if (draggableOrder.some((order) => order._id === pinned._id)) {
+        setDraggableOrder((prev) => prev.map(updateOrder));
+      } else {
+        // Newly located stops join the end of the route
+        const newOrder = [...draggableOrder, pinned];
+        const unplaced = unlocatedOrders.filter(
+          (order) => order._id !== pinned._id
+        );
+        setDraggableOrder(newOrder);
+        setUnlocatedOrders(unplaced);
+        saveDeliverySequence(newOrder);
+      }
+      setPinningOrder(null);
+    } catch (error) {
+      // Error will be automatically shown by axios interceptor
+    }
+  };
+
+  const handleApplyOptimizedRoute = () => {
+    if (!optimizedOrder) return;
+    setDraggableOrder(optimizedOrder);
+    saveDeliverySequence(optimizedOrder);
+    setOptimizedOrder(null);
+  };
 
+  // Redraw the route whenever the sequence or the base changes
+  useEffect(() => {
+    if (!map) return;
+
+    const markers: MapMarker[] = [
+      map.addMarker({
+        position: baseLocation,
+        title: baseName,
+        color: "#4285F4",
+        size: 30,
+      }),
+    ];
+    const polylines: MapPolyline[] = [];
+
+    draggableOrder.forEach((order, index) => {
+      if (!hasCustomerLocation(order)) return;
+      const marker = map.addMarker({
+        position: toPosition(order),
+        title: order.customer.name,
+        label: (index + 1).toString(),
+        color: "#FF6B6B",
+      });
+      marker.onClick(() => setSelectedCustomer(order.customer));
       markers.push(marker);
     });
 
     // Draw simple route lines connecting the points
-    if (ordersWithCoords.length > 0) {
+    const locatedOrders = draggableOrder.filter(hasCustomerLocation);
+    if (locatedOrders.length > 0) {
       const points = [
         baseLocation,
-        ...ordersWithCoords.map((order) => ({
-          lat: order.customer.latitude,
-          lng: order.customer.longitude,
-        })),
+        ...locatedOrders.map(toPosition),
         baseLocation,
       ];
 
-      // Draw route segments
       for (let i = 0; i < points.length - 1; i++) {
-        const polyline = new window.google.maps.Polyline({
-          path: [points[i], points[i + 1]],
-          geodesic: true,
-          strokeColor: routeColors[i % routeColors.length],
-          strokeOpacity: 1.0,
-          strokeWeight: 4,
-          map: map,
-        });
-        polylines.push(polyline);
-      }
-
-      // Add info windows for route segments
-      polylines.forEach((polyline, index) => {
-        const startPoint = points[index];
-        const endPoint = points[index + 1];
-        const midPoint = {
-          lat: (startPoint.lat + endPoint.lat) / 2,
-          lng: (startPoint.lng + endPoint.lng) / 2,
-        };
-
-        const infoWindow = new window.google.maps.InfoWindow({
-          content: `<div style="padding: 8px;">
-            <strong>Route Segment ${index + 1}</strong><br>
-            ${
-              index === 0
-                ? "Base → Customer 1"
-                : index === points.length - 2
-                ? "Last Customer → Base"
-                : `Customer ${index} → Customer ${index + 1}`
-            }
-          </div>`,
+        const startPoint = points[i];
+        const endPoint = points[i + 1];
+        const polyline = map.addPolyline({
+          path: [startPoint, endPoint],
+          color: routeColors[i % routeColors.length],
         });
 
-        polyline.addListener("click", () => {
-          infoWindow.setPosition(midPoint);
-          infoWindow.open(map);
+        polyline.onClick(() => {
+          map.openInfoWindow(
+            {
+              lat: (startPoint.lat + endPoint.lat) / 2,
+              lng: (startPoint.lng + endPoint.lng) / 2,
+            },
+            `<div style="padding: 8px;">
+              <strong>Route Segment ${i + 1}</strong><br>
+              ${
+                i === 0
+                  ? "Base → Customer 1"
+                  : i === points.length - 2
+                  ? "Last Customer → Base"
+                  : `Customer ${i} → Customer ${i + 1}`
+              }<br>
+              ${formatDistance(haversineDistance(startPoint, endPoint))}
+            </div>`
+          );
         });
-      });
+        polylines.push(polyline);
+      }
     }
-  }, [draggableOrder]);
 
-  // Initialize map when draggableOrder changes
+    return () => {
+      markers.forEach((marker) => marker.remove());
+      polylines.forEach((polyline) => polyline.remove());
+    };
+  }, [map, draggableOrder, baseLocation, baseName]);
+
   useEffect(() => {
-    if (window.google && window.google.maps) {
-      initializeMap();
-    }
-  }, [initializeMap]);
+    map?.setCenter(baseLocation);
+  }, [map, baseLocation]);
 
   // Fetch drivers on component mount
   useEffect(() => {
@@ -387,6 +548,9 @@ const DeliveryRoutes: React.FC = () => {
                 slotProps={{ textField: { fullWidth: true } }}
               />
             </Box>
+            <Box sx={{ minWidth: 0 }}>
+              <VacationPolicySelect value={policy} onChange={setPolicy} />
+            </Box>
             <Box sx={{ flex: 1, minWidth: 0 }}>
               <Typography variant="body2" color="text.secondary">
                 {selectedDriver && selectedDate && (
@@ -407,13 +571,57 @@ const DeliveryRoutes: React.FC = () => {
           <Box sx={{ width: "40%", display: "flex", flexDirection: "column" }}>
             <Paper sx={{ flex: 1, overflow: "auto" }}>
               <Box sx={{ p: 2, borderBottom: 1, borderColor: "divider" }}>
-                <Typography variant="h6">
-                  Delivery Route ({allOrders.length} orders,{" "}
-                  {routePoints.length} with coordinates)
-                </Typography>
+                <Box
+                  sx={{
+                    display: "flex",
+                    justifyContent: "space-between",
+                    alignItems: "center",
+                    gap: 1,
+                  }}
+                >
+                  <Typography variant="h6">
+                    Delivery Route ({allOrders.length} orders,{" "}
+                    {routePoints.length} with coordinates)
+                  </Typography>
+                  <Box sx={{ display: "flex", gap: 1 }}>
+                    <Button
+                      size="small"
+                      variant="outlined"
+                      startIcon={<OptimizeIcon />}
+                      onClick={handleOptimizeRoute}
+                      disabled={
+                        draggableOrder.filter(hasCustomerLocation).length < 3
+                      }
+                    >
+                      Optimise Route
+                    </Button>
+                    <Button
+                      size="small"
+                      variant="outlined"
+                      startIcon={<PrintIcon />}
+                      onClick={handlePrintRouteSheet}
+                      disabled={allOrders.length === 0}
+                    >
+                      Print Route Sheet
+                    </Button>
+                  </Box>
+                </Box>
                 <Typography variant="body2" color="text.secondary">
-                  Starting from Berlin base location
+                  Starting from {baseName}
                 </Typography>
+                {skippedOrders.length > 0 && (
+                  <Typography
+                    variant="caption"
+                    color="warning.main"
+                    sx={{ display: "block", mt: 1 }}
+                  >
+                    {skippedOrders.length} delivery(s) skipped, customer on
+                    vacation:{" "}
+                    {skippedOrders
+                      .map((order) => order.customer.name)
+                      .join(", ")}
+                  </Typography>
+                )}
               </Box>
 
               {loading ? (
@@ -428,9 +636,14 @@ const DeliveryRoutes: React.FC = () => {
                 </Box>
               ) : (
                 <Box sx={{ p: 1 }}>
+                  <UnlocatedStopsTray
+                    orders={unlocatedOrders}
+                    sequenceLength={draggableOrder.length}
+                    onPin={handleOpenPinDialog}
+                    onInsert={handleInsertStop}
+                  />
                   {draggableOrder.map((order, index) => {
-                    const hasCoordinates =
-                      order.customer.latitude && order.customer.longitude;
+                    const hasCoordinates = hasCustomerLocation(order);
                     return (
                       <Card
                         key={order._id}
@@ -467,7 +680,7 @@ const DeliveryRoutes: React.FC = () => {
                             }}
                           >
                             <Chip
-                              label={hasCoordinates ? index + 1 : "?"}
+                              label={index + 1}
                               size="small"
                               color={hasCoordinates ? "primary" : "default"}
                               sx={{ mr: 1 }}
@@ -485,6 +698,15 @@ const DeliveryRoutes: React.FC = () => {
                             )}
                           </Box>
 
+                          {rescheduledFrom[order._id] && (
+                            <Box sx={{ mb: 1 }}>
+                              <VacationChip
+                                outcome={VacationOutcome.RESCHEDULED}
+                                originalDate={rescheduledFrom[order._id]}
+                              />
+                            </Box>
+                          )}
+
                           <Typography
                             variant="body2"
                             color="text.secondary"
@@ -575,6 +797,17 @@ const DeliveryRoutes: React.FC = () => {
                                 ⚠️ Location coordinates not available for route
                                 planning
                               </Typography>
+                              <Button
+                                size="small"
+                                startIcon={<LocationIcon />}
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  handleOpenPinDialog(order);
+                                }}
+                                sx={{ ml: 1 }}
+                              >
+                                Pin Location
+                              </Button>
                             </Box>
                           )}
                         </CardContent>
@@ -587,8 +820,16 @@ const DeliveryRoutes: React.FC = () => {
           </Box>
 
           {/* Right Panel - Map */}
-          <Box sx={{ width: "60%" }}>
-            <Paper sx={{ height: "100%", overflow: "hidden" }}>
+          <Box
+            sx={{
+              width: "60%",
+              display: "flex",
+              flexDirection: "column",
+              gap: 2,
+              minHeight: 0,
+            }}
+          >
+            <Paper sx={{ flex: 1, minHeight: 300, overflow: "hidden" }}>
               <Box sx={{ p: 2, borderBottom: 1, borderColor: "divider" }}>
                 <Typography variant="h6">Route Map</Typography>
                 <Typography variant="body2" color="text.secondary">
@@ -610,16 +851,84 @@ const DeliveryRoutes: React.FC = () => {
                 )}
               </Box>
               <Box
-                id="delivery-map"
+                ref={mapRef}
                 sx={{
                   height: "calc(100% - 80px)",
                   width: "100%",
                 }}
               />
             </Paper>
+            {selectedDriver && selectedDate && (
+              <Box sx={{ maxHeight: "45%", overflow: "auto" }}>
+                <RouteSummary
+                  base={baseLocation}
+                  stops={draggableOrder
+                    .filter(hasCustomerLocation)
+                    .map((order) => ({
+                      id: order._id,
+                      name: order.customer.name,
+                      position: toPosition(order),
+                    }))}
+                  date={selectedDate}
+                  settings={routeSettings}
+                  onSettingsChange={updateRouteSettings}
+                />
+              </Box>
+            )}
           </Box>
         </Box>
       </Box>
+
+      <RouteOptimizationDialog
+        open={!!optimizedOrder}
+        currentDistance={routeDistance(
+          baseLocation,
+          draggableOrder.filter(hasCustomerLocation).map(toPosition)
+        )}
+        optimizedDistance={routeDistance(
+          baseLocation,
+          (optimizedOrder || []).filter(hasCustomerLocation).map(toPosition)
+        )}
+        stopNames={(optimizedOrder || []).map((order) => order.customer.name)}
+        onClose={() => setOptimizedOrder(null)}
+        onApply={handleApplyOptimizedRoute}
+      />
+
+      <Dialog
+        open={!!pinningOrder}
+        onClose={() => setPinningOrder(null)}
+        maxWidth="md"
+        fullWidth
+      >
+        <DialogTitle>Pin Location: {pinningOrder?.customer.name}</DialogTitle>
+        <DialogContent>
+          {pinningOrder && (
+            <Box sx={{ mt: 1 }}>
+              <MapPicker
+                onLocationChange={(lat, lng) => setPinPosition({ lat, lng })}
+                address={[
+                  pinningOrder.customer.street,
+                  pinningOrder.customer.houseNumber,
+                  pinningOrder.customer.postalCode,
+                  pinningOrder.customer.city,
+                ]
+                  .filter(Boolean)
+                  .join(", ")}
+              />
+            </Box>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setPinningOrder(null)}>Cancel</Button>
+          <Button
+            onClick={handleSavePin}
+            variant="contained"
+            disabled={!pinPosition}
+          >
+            Save Location
+          </Button>
+        </DialogActions>
+      </Dialog>
     </LocalizationProvider>
   );
 };
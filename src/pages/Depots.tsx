@@ -0,0 +1,317 @@
+import React, { useState, useMemo, useCallback } from "react";
+import {
+  Box,
+  Button,
+  Paper,
+  Typography,
+  TextField,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  IconButton,
+  Chip,
+  FormControlLabel,
+  Switch,
+} from "@mui/material";
+import {
+  Add as AddIcon,
+  Edit as EditIcon,
+  Delete as DeleteIcon,
+  LocationOn as LocationIcon,
+} from "@mui/icons-material";
+import { DataGrid, GridColDef, GridRenderCellParams } from "@mui/x-data-grid";
+import api from "../utils/axios";
+import { Depot } from "../types/depot";
+import { useDepots } from "../context/DepotContext";
+import MapPicker from "../components/MapPicker";
+
+const emptyForm = {
+  name: "",
+  street: "",
+  houseNumber: "",
+  postalCode: "",
+  city: "",
+  latitude: 0,
+  longitude: 0,
+  isDefault: false,
+};
+
+const Depots: React.FC = () => {
+  const { depots, loading, refreshDepots } = useDepots();
+  const [openDialog, setOpenDialog] = useState(false);
+  const [selectedDepot, setSelectedDepot] = useState<Depot | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+
+  const handleOpenDialog = useCallback((depot?: Depot) => {
+    if (depot) {
+      setSelectedDepot(depot);
+      setFormData({
+        name: depot.name,
+        street: depot.street,
+        houseNumber: depot.houseNumber,
+        postalCode: depot.postalCode,
+        city: depot.city,
+        latitude: depot.latitude,
+        longitude: depot.longitude,
+        isDefault: depot.isDefault,
+      });
+    } else {
+      setSelectedDepot(null);
+      setFormData(emptyForm);
+    }
+    setOpenDialog(true);
+  }, []);
+
+  const handleCloseDialog = useCallback(() => {
+    setOpenDialog(false);
+    setSelectedDepot(null);
+  }, []);
+
+  const handleInputChange = useCallback(
+    (e: React.ChangeEvent<HTMLInputElement>) => {
+      const { name, value } = e.target;
+      setFormData((prev) => ({
+        ...prev,
+        [name]: value,
+      }));
+    },
+    []
+  );
+
+  const handleSubmit = useCallback(async () => {
+    try {
+      if (selectedDepot) {
+        await api.patch(`/depots/${selectedDepot._id}`, formData);
+      } else {
+        await api.post("/depots", formData);
+      }
+      refreshDepots();
+      handleCloseDialog();
+    } catch (error) {
+      // Error will be automatically shown by axios interceptor
+    }
+  }, [selectedDepot, formData, refreshDepots, handleCloseDialog]);
+
+  const handleDelete = useCallback(
+    async (id: string) => {
+      if (
+        window.confirm(
+          "Are you sure you want to delete this depot? Drivers based here will start from the default depot."
+        )
+      ) {
+        try {
+          await api.delete(`/depots/${id}`);
+          refreshDepots();
+        } catch (error) {
+          // Error will be automatically shown by axios interceptor
+        }
+      }
+    },
+    [refreshDepots]
+  );
+
+  const columns: GridColDef[] = useMemo(
+    () => [
+      {
+        field: "name",
+        headerName: "Name",
+        flex: 1,
+        renderCell: (params: GridRenderCellParams<Depot>) => (
+          <Box sx={{ display: "flex", alignItems: "center", gap: 1 }}>
+            {params.row.name}
+            {params.row.isDefault && (
+              <Chip label="Default" size="small" color="primary" />
+            )}
+          </Box>
+        ),
+      },
+      {
+        field: "address",
+        headerName: "Address",
+        flex: 2,
+        valueGetter: (_value, row: Depot) =>
+          `${row.street} ${row.houseNumber}, ${row.postalCode} ${row.city}`,
+      },
+      {
+        field: "coordinates",
+        headerName: "Coordinates",
+        flex: 1,
+        valueGetter: (_value, row: Depot) =>
+          `${row.latitude.toFixed(5)}, ${row.longitude.toFixed(5)}`,
+      },
+      {
+        field: "actions",
+        headerName: "Actions",
+        width: 120,
+        renderCell: (params: GridRenderCellParams<Depot>) => (
+          <Box>
+            <IconButton
+              size="small"
+              onClick={() => handleOpenDialog(params.row)}
+              color="primary"
+            >
+              <EditIcon />
+            </IconButton>
+            <IconButton
+              size="small"
+              onClick={() => handleDelete(params.row._id)}
+              color="error"
+            >
+              <DeleteIcon />
+            </IconButton>
+          </Box>
+        ),
+      },
+    ],
+    [handleOpenDialog, handleDelete]
+  );
+
+  return (
+    <Box sx={{ height: "100%", width: "100%" }}>
+      <Box sx={{ display: "flex", justifyContent: "space-between", mb: 2 }}>
+        <Typography variant="h5" component="h1">
+          Depots
+        </Typography>
+        <Button
+          variant="contained"
+          startIcon={<AddIcon />}
+          onClick={() => handleOpenDialog()}
+        >
+          Add Depot
+        </Button>
+      </Box>
+
+      <Paper sx={{ height: "calc(100% - 60px)" }}>
+        <DataGrid
+          rows={depots}
+          columns={columns}
+          getRowId={(row) => row._id}
+          initialState={{
+            pagination: {
+              paginationModel: { pageSize: 10, page: 0 },
+            },
+          }}
+          pageSizeOptions={[10]}
+          disableRowSelectionOnClick
+          loading={loading}
+        />
+      </Paper>
+
+      <Dialog
+        open={openDialog}
+        onClose={handleCloseDialog}
+        maxWidth="md"
+        fullWidth
+      >
+        <DialogTitle>{selectedDepot ? "Edit Depot" : "Add Depot"}</DialogTitle>
+        <DialogContent>
+          <Box
+            sx={{
+              display: "grid",
+              gridTemplateColumns: "1fr 1fr",
+              gap: 2,
+              mt: 2,
+            }}
+          >
+            <TextField
+              name="name"
+              label="Name"
+              value={formData.name}
+              onChange={handleInputChange}
+              required
+              fullWidth
+            />
+            <FormControlLabel
+              control={
+                <Switch
+                  checked={formData.isDefault}
+                  onChange={(e) =>
+                    setFormData((prev) => ({
+                      ...prev,
+                      isDefault: e.target.checked,
+                    }))
+                  }
+                />
+              }
+              label="Default depot"
+            />
+            <TextField
+              name="street"
+              label="Street"
+              value={formData.street}
+              onChange={handleInputChange}
+              required
+              fullWidth
+            />
+            <TextField
+              name="houseNumber"
+              label="House Number"
+              value={formData.houseNumber}
+              onChange={handleInputChange}
+              required
+              fullWidth
+            />
+            <TextField
+              name="postalCode"
+              label="Postal Code"
+              value={formData.postalCode}
+              onChange={handleInputChange}
+              required
+              fullWidth
+            />
+            <TextField
+              name="city"
+              label="City"
+              value={formData.city}
+              onChange={handleInputChange}
+              required
+              fullWidth
+            />
+          </Box>
+
+          <Box sx={{ mt: 3 }}>
+            <Typography
+              variant="h6"
+              sx={{ mb: 2, display: "flex", alignItems: "center", gap: 1 }}
+            >
+              <LocationIcon />
+              Location on Map
+            </Typography>
+            <MapPicker
+              latitude={formData.latitude}
+              longitude={formData.longitude}
+              onLocationChange={(lat, lng) => {
+                setFormData((prev) => ({
+                  ...prev,
+                  latitude: lat,
+                  longitude: lng,
+                }));
+              }}
+              address={[
+                formData.street,
+                formData.houseNumber,
+                formData.postalCode,
+                formData.city,
+              ]
+                .filter(Boolean)
+                .join(", ")}
+            />
+          </Box>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={handleCloseDialog}>Cancel</Button>
+          <Button
+            onClick={handleSubmit}
+            variant="contained"
+            disabled={!formData.name || !formData.latitude}
+          >
+            {selectedDepot ? "Save Changes" : "Add Depot"}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
+
+export default Depots;
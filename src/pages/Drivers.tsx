@@ -17,6 +17,10 @@ import {
   Select,
   MenuItem,
   SelectChangeEvent,
+  ToggleButton,
+  ToggleButtonGroup,
+  FormControlLabel,
+  Switch,
 } from "@mui/material";
 import {
   Add as AddIcon,
@@ -28,6 +32,11 @@ import {
 import { DataGrid, GridColDef, GridRenderCellParams } from "@mui/x-data-grid";
 import api from "../utils/axios";
 import { useDebounce } from "../hooks/useDebounce";
+import { useDepots } from "../context/DepotContext";
+import { usePermissions } from "../hooks/usePermissions";
+import { Permission } from "../utils/permissions";
+import { Depot } from "../types/depot";
+import { WEEKDAYS } from "../utils/capacity";
 
 enum DriverStatus {
   ACTIVE = "active",
@@ -48,10 +57,23 @@ interface Driver {
   status: DriverStatus;
   vacationStartDate?: string;
   vacationEndDate?: string;
+  homeDepot?: string | Depot | null;
+  maxStopsPerDay?: number | null;
+  maxItemsPerDay?: number | null;
+  maxVolumePerDay?: number | null;
+  workingDays?: number[] | null;
+  blockOverCapacity?: boolean;
 }
 
+const ALL_DAYS = WEEKDAYS.map((day) => day.value);
+
+// Empty capacity fields mean no limit
+const toLimit = (value: string) => (value ? Number(value) : null);
+
 const Drivers: React.FC = () => {
   const navigate = useNavigate();
+  const { depots, getDepot } = useDepots();
+  const { can } = usePermissions();
   const [drivers, setDrivers] = useState<Driver[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchQuery, setSearchQuery] = useState("");
@@ -70,6 +92,12 @@ const Drivers: React.FC = () => {
     status: DriverStatus.ACTIVE,
     vacationStartDate: "",
     vacationEndDate: "",
+    homeDepot: "",
+    maxStopsPerDay: "",
+    maxItemsPerDay: "",
+    maxVolumePerDay: "",
+    workingDays: ALL_DAYS,
+    blockOverCapacity: false,
   });
 
   const fetchDrivers = useCallback(async () => {
@@ -103,6 +131,15 @@ const Drivers: React.FC = () => {
         status: driver.status,
         vacationStartDate: driver.vacationStartDate || "",
         vacationEndDate: driver.vacationEndDate || "",
+        homeDepot:
+          (typeof driver.homeDepot === "string"
+            ? driver.homeDepot
+            : driver.homeDepot?._id) || "",
+        maxStopsPerDay: driver.maxStopsPerDay?.toString() || "",
+        maxItemsPerDay: driver.maxItemsPerDay?.toString() || "",
+        maxVolumePerDay: driver.maxVolumePerDay?.toString() || "",
+        workingDays: driver.workingDays || ALL_DAYS,
+        blockOverCapacity: !!driver.blockOverCapacity,
       });
     } else {
       setSelectedDriver(null);
@@ -119,6 +156,12 @@ const Drivers: React.FC = () => {
         status: DriverStatus.ACTIVE,
         vacationStartDate: "",
         vacationEndDate: "",
+        homeDepot: "",
+        maxStopsPerDay: "",
+        maxItemsPerDay: "",
+        maxVolumePerDay: "",
+        workingDays: ALL_DAYS,
+        blockOverCapacity: false,
       });
     }
     setOpenDialog(true);
@@ -147,12 +190,31 @@ const Drivers: React.FC = () => {
     }));
   }, []);
 
+  const handleHomeDepotChange = useCallback((e: SelectChangeEvent) => {
+    setFormData((prev) => ({
+      ...prev,
+      homeDepot: e.target.value,
+    }));
+  }, []);
+
   const handleSubmit = useCallback(async () => {
+    const payload = {
+      ...formData,
+      homeDepot: formData.homeDepot || null,
+      maxStopsPerDay: toLimit(formData.maxStopsPerDay),
+      maxItemsPerDay: toLimit(formData.maxItemsPerDay),
+      maxVolumePerDay: toLimit(formData.maxVolumePerDay),
+      // Working every day is stored as no restriction
+      workingDays:
+        formData.workingDays.length === ALL_DAYS.length
+          ? null
+          : formData.workingDays,
+    };
     try {
       if (selectedDriver) {
-        await api.patch(`/drivers/${selectedDriver._id}`, formData);
+        await api.patch(`/drivers/${selectedDriver._id}`, payload);
       } else {
-        await api.post("/drivers", formData);
+        await api.post("/drivers", payload);
       }
       fetchDrivers();
       handleCloseDialog();
@@ -201,6 +263,12 @@ const Drivers: React.FC = () => {
       { field: "postalCode", headerName: "Postal Code", width: 120 },
       { field: "mobileNumber", headerName: "Mobile", flex: 1 },
       { field: "email", headerName: "Email", flex: 1 },
+      {
+        field: "homeDepot",
+        headerName: "Home Depot",
+        flex: 1,
+        valueGetter: (_value, row: Driver) => getDepot(row.homeDepot)?.name,
+      },
       {
         field: "status",
         headerName: "Status",
@@ -232,25 +300,29 @@ const Drivers: React.FC = () => {
             >
               <ViewIcon />
             </IconButton>
-            <IconButton
-              size="small"
-              onClick={() => handleOpenDialog(params.row as Driver)}
-              color="primary"
-            >
-              <EditIcon />
-            </IconButton>
-            <IconButton
-              size="small"
-              onClick={() => handleDelete(params.row._id)}
-              color="error"
-            >
-              <DeleteIcon />
-            </IconButton>
+            {can(Permission.EDIT_DRIVERS) && (
+              <IconButton
+                size="small"
+                onClick={() => handleOpenDialog(params.row as Driver)}
+                color="primary"
+              >
+                <EditIcon />
+              </IconButton>
+            )}
+            {can(Permission.DELETE_DRIVERS) && (
+              <IconButton
+                size="small"
+                onClick={() => handleDelete(params.row._id)}
+                color="error"
+              >
+                <DeleteIcon />
+              </IconButton>
+            )}
           </Box>
         ),
       },
     ],
-    [handleViewDetails, handleOpenDialog, handleDelete]
+    [handleViewDetails, handleOpenDialog, handleDelete, getDepot, can]
   );
 
   const filteredDrivers = useMemo(
@@ -269,13 +341,15 @@ const Drivers: React.FC = () => {
         <Typography variant="h5" component="h1">
           Drivers
         </Typography>
-        <Button
-          variant="contained"
-          startIcon={<AddIcon />}
-          onClick={() => handleOpenDialog()}
-        >
-          Add Driver
-        </Button>
+        {can(Permission.EDIT_DRIVERS) && (
+          <Button
+            variant="contained"
+            startIcon={<AddIcon />}
+            onClick={() => handleOpenDialog()}
+          >
+            Add Driver
+          </Button>
+        )}
       </Box>
 
       <Paper sx={{ p: 2, mb: 3 }}>
@@ -420,6 +494,24 @@ const Drivers: React.FC = () => {
                 <MenuItem value={DriverStatus.INACTIVE}>Inactive</MenuItem>
               </Select>
             </FormControl>
+            <FormControl fullWidth>
+              <InputLabel>Home Depot</InputLabel>
+              <Select
+                name="homeDepot"
+                value={formData.homeDepot}
+                onChange={handleHomeDepotChange}
+                label="Home Depot"
+              >
+                <MenuItem value="">
+                  <em>Default depot</em>
+                </MenuItem>
+                {depots.map((depot) => (
+                  <MenuItem key={depot._id} value={depot._id}>
+                    {depot.name}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
             {formData.status === DriverStatus.ON_VACATION && (
               <>
                 <TextField
@@ -443,6 +535,89 @@ const Drivers: React.FC = () => {
               </>
             )}
           </Box>
+
+          <Typography variant="h6" sx={{ mt: 3, mb: 2 }}>
+            Capacity
+          </Typography>
+          <Box
+            sx={{
+              display: "grid",
+              gridTemplateColumns: "1fr 1fr 1fr",
+              gap: 2,
+            }}
+          >
+            <TextField
+              name="maxStopsPerDay"
+              label="Max Stops / Day"
+              type="number"
+              value={formData.maxStopsPerDay}
+              onChange={handleInputChange}
+              inputProps={{ min: 0 }}
+              helperText="Empty for no limit"
+              fullWidth
+            />
+            <TextField
+              name="maxItemsPerDay"
+              label="Max Items / Day"
+              type="number"
+              value={formData.maxItemsPerDay}
+              onChange={handleInputChange}
+              inputProps={{ min: 0 }}
+              fullWidth
+            />
+            <TextField
+              name="maxVolumePerDay"
+              label="Max Volume / Day (m³)"
+              type="number"
+              value={formData.maxVolumePerDay}
+              onChange={handleInputChange}
+              inputProps={{ min: 0, step: 0.1 }}
+              fullWidth
+            />
+          </Box>
+          <Box
+            sx={{
+              display: "flex",
+              alignItems: "center",
+              justifyContent: "space-between",
+              flexWrap: "wrap",
+              gap: 2,
+              mt: 2,
+            }}
+          >
+            <Box>
+              <Typography variant="body2" color="text.secondary" gutterBottom>
+                Working Days
+              </Typography>
+              <ToggleButtonGroup
+                size="small"
+                value={formData.workingDays}
+                onChange={(_event, workingDays: number[]) =>
+                  setFormData((prev) => ({ ...prev, workingDays }))
+                }
+              >
+                {WEEKDAYS.map((day) => (
+                  <ToggleButton key={day.value} value={day.value}>
+                    {day.label}
+                  </ToggleButton>
+                ))}
+              </ToggleButtonGroup>
+            </Box>
+            <FormControlLabel
+              control={
+                <Switch
+                  checked={formData.blockOverCapacity}
+                  onChange={(e) =>
+                    setFormData((prev) => ({
+                      ...prev,
+                      blockOverCapacity: e.target.checked,
+                    }))
+                  }
+                />
+              }
+              label="Block assignments over capacity"
+            />
+          </Box>
         </DialogContent>
         <DialogActions>
           <Button onClick={handleCloseDialog}>Cancel</Button>
@@ -0,0 +1,34 @@
+import React from "react";
+import { useNavigate } from "react-router-dom";
+import { Box, Button, Typography } from "@mui/material";
+import { Block as BlockIcon } from "@mui/icons-material";
+import { useAuth } from "../context/AuthContext";
+import { getHomePath } from "../utils/permissions";
+
+const Forbidden: React.FC = () => {
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const homePath = getHomePath(user?.role);
+
+  return (
+    <Box sx={{ textAlign: "center", mt: 8 }}>
+      <BlockIcon color="error" sx={{ fontSize: 64 }} />
+      <Typography variant="h3" gutterBottom>
+        403
+      </Typography>
+      <Typography variant="h6" gutterBottom>
+        Access denied
+      </Typography>
+      <Typography color="text.secondary" sx={{ mb: 3 }}>
+        You do not have permission to view this page.
+      </Typography>
+      {homePath !== "/403" && (
+        <Button variant="contained" onClick={() => navigate(homePath)}>
+          Go to Start Page
+        </Button>
+      )}
+    </Box>
+  );
+};
+
+export default Forbidden;
@@ -26,10 +26,13 @@ import api from "../utils/axios";
 import { Item, UnitOfMeasure } from "../types/item";
 import { useDebounce } from "../hooks/useDebounce";
 import { useErrorHandler } from "../hooks/useErrorHandler";
+import { usePermissions } from "../hooks/usePermissions";
+import { Permission } from "../utils/permissions";
 import ErrorAlert from "../components/ErrorAlert";
 
 const Items: React.FC = () => {
   const { error, handleError, clearError } = useErrorHandler();
+  const { can } = usePermissions();
   const [items, setItems] = useState<Item[]>([]);
   const [loading, setLoading] = useState(true);
   const [openDialog, setOpenDialog] = useState(false);
@@ -175,26 +178,30 @@ const Items: React.FC = () => {
           if (!params?.row) return null;
           return (
             <Box>
-              <IconButton
-                size="small"
-                onClick={() => handleOpenDialog(params.row)}
-                color="primary"
-              >
-                <EditIcon />
-              </IconButton>
-              <IconButton
-                size="small"
-                onClick={() => handleDelete(params.row._id)}
-                color="error"
-              >
-                <DeleteIcon />
-              </IconButton>
+              {can(Permission.EDIT_ITEMS) && (
+                <IconButton
+                  size="small"
+                  onClick={() => handleOpenDialog(params.row)}
+                  color="primary"
+                >
+                  <EditIcon />
+                </IconButton>
+              )}
+              {can(Permission.DELETE_ITEMS) && (
+                <IconButton
+                  size="small"
+                  onClick={() => handleDelete(params.row._id)}
+                  color="error"
+                >
+                  <DeleteIcon />
+                </IconButton>
+              )}
             </Box>
           );
         },
       },
     ],
-    [handleOpenDialog, handleDelete]
+    [handleOpenDialog, handleDelete, can]
   );
 
   const filteredItems = useMemo(
@@ -215,13 +222,15 @@ const Items: React.FC = () => {
         <Typography variant="h5" component="h1">
           Items
         </Typography>
-        <Button
-          variant="contained"
-          startIcon={<AddIcon />}
-          onClick={() => handleOpenDialog()}
-        >
-          Add Item
-        </Button>
+        {can(Permission.EDIT_ITEMS) && (
+          <Button
+            variant="contained"
+            startIcon={<AddIcon />}
+            onClick={() => handleOpenDialog()}
+          >
+            Add Item
+          </Button>
+        )}
       </Box>
 
       <Paper sx={{ p: 2, mb: 3 }}>
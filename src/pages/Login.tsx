@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from "react";
-import { useNavigate } from "react-router-dom";
+import { Location, useLocation, useNavigate } from "react-router-dom";
 import {
   Box,
   Button,
@@ -16,6 +16,7 @@ import api from "../utils/axios";
 
 const Login: React.FC = () => {
   const navigate = useNavigate();
+  const location = useLocation();
   const { login, isAuthenticated, loading } = useAuth();
   const { error, handleError, clearError } = useErrorHandler();
   const [formData, setFormData] = useState({
@@ -24,12 +25,16 @@ const Login: React.FC = () => {
   });
   const [formLoading, setFormLoading] = useState(false);
 
+  // Page the user was sent here from, e.g. after the session expired
+  const from = (location.state as { from?: Location } | null)?.from;
+  const returnTo = from ? `${from.pathname}${from.search}` : "/";
+
   // Redirect if already authenticated
   useEffect(() => {
     if (isAuthenticated && !loading) {
-      navigate("/", { replace: true });
+      navigate(returnTo, { replace: true });
     }
-  }, [isAuthenticated, loading, navigate]);
+  }, [isAuthenticated, loading, navigate, returnTo]);
 
   // Don't render login form if still loading or already authenticated
   if (loading || isAuthenticated) {
@@ -63,7 +68,7 @@ const Login: React.FC = () => {
 
     try {
       await login(formData.email, formData.password);
-      navigate("/");
+      navigate(returnTo, { replace: true });
     } catch (error) {
       handleError(error, "Invalid email or password");
     } finally {
@@ -0,0 +1,363 @@
+import React, { useState, useEffect, useCallback, useMemo } from "react";
+import {
+  Alert,
+  Box,
+  Button,
+  Card,
+  CardActions,
+  CardContent,
+  Chip,
+  CircularProgress,
+  LinearProgress,
+  Typography,
+} from "@mui/material";
+import {
+  Phone as PhoneIcon,
+  Navigation as NavigationIcon,
+  CheckCircle as DeliveredIcon,
+  Cancel as FailedIcon,
+} from "@mui/icons-material";
+import { format } from "date-fns";
+import api from "../utils/axios";
+import { toDateKey, toLocalDay } from "../utils/recurrence";
+import { getDeliveriesOn, VacationOutcome } from "../utils/vacation";
+import { compareDeliverySequence } from "../utils/deliverySequence";
+import { useVacationPolicy } from "../context/VacationPolicyContext";
+import {
+  Delivery,
+  DeliveredItem,
+  DeliveryPayload,
+  DeliveryStatus,
+} from "../types/delivery";
+import {
+  deliveryStatusColors,
+  formatDeliveredItems,
+  formatDeliveryStatus,
+} from "../utils/delivery";
+import StopOutcomeDialog, {
+  StopOutcome,
+} from "../components/StopOutcomeDialog";
+
+interface Order {
+  _id: string;
+  orderNumber: string;
+  customer: {
+    name: string;
+    street: string;
+    houseNumber: string;
+    postalCode: string;
+    city: string;
+    mobileNumber?: string;
+    status: string;
+    vacationStartDate?: string | null;
+    vacationEndDate?: string | null;
+    latitude?: number;
+    longitude?: number;
+  };
+  items: DeliveredItem[];
+  driverNote?: string;
+  startDate?: string;
+  endDate?: string;
+  frequency?: string;
+  deliverySequence?: number;
+}
+
+interface Stop {
+  order: Order;
+  // The occurrence the stop delivers, differs from today for deliveries
+  // moved out of a customer vacation
+  scheduledDate: Date;
+}
+
+interface Driver {
+  _id: string;
+  name: string;
+}
+
+const getNavigationUrl = ({ customer }: Order) => {
+  const destination =
+    customer.latitude && customer.longitude
+      ? `${customer.latitude},${customer.longitude}`
+      : `${customer.street} ${customer.houseNumber}, ${customer.postalCode} ${customer.city}`;
+  return `https://www.google.com/maps/dir/?api=1&destination=${encodeURIComponent(
+    destination
+  )}`;
+};
+
+const MyRoute: React.FC = () => {
+  const { policy, loading: policyLoading } = useVacationPolicy();
+  const [driver, setDriver] = useState<Driver | null>(null);
+  const [orders, setOrders] = useState<Order[]>([]);
+  const [deliveries, setDeliveries] = useState<Delivery[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [notLinked, setNotLinked] = useState(false);
+  const [pending, setPending] = useState<{
+    stop: Stop;
+    status: StopOutcome["status"];
+  } | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [today] = useState(() => new Date());
+
+  const fetchRoute = useCallback(async () => {
+    try {
+      // The driver record linked to the logged-in user
+      const driverRes = await api.get<Driver | null>("/drivers/me");
+      if (!driverRes.data) {
+        setNotLinked(true);
+        setLoading(false);
+        return;
+      }
+      const ordersRes = await api.get<Order[]>(
+        `/orders?driver=${driverRes.data._id}&allOrders=true`
+      );
+      setDriver(driverRes.data);
+      setOrders(ordersRes.data);
+    } catch (error) {
+      // Error will be automatically shown by axios interceptor
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchRoute();
+  }, [fetchRoute]);
+
+  // Same order as the dispatcher's route
+  const stops = useMemo<Stop[]>(
+    () =>
+      getDeliveriesOn(orders, today, policy)
+        .filter((delivery) => delivery.vacation !== VacationOutcome.SKIPPED)
+        .sort((a, b) => compareDeliverySequence(a.order, b.order))
+        .map((delivery) => ({
+          order: delivery.order,
+          scheduledDate: delivery.originalDate,
+        })),
+    [orders, today, policy]
+  );
+
+  // Records are kept under the date a stop was scheduled for, which is
+  // earlier than today for stops moved out of a customer vacation
+  const recordDates = useMemo(
+    () =>
+      Array.from(
+        new Set(stops.map((stop) => toDateKey(stop.scheduledDate)))
+      ).join(","),
+    [stops]
+  );
+
+  const fetchDeliveries = useCallback(async () => {
+    if (!driver) return;
+    try {
+      const responses = await Promise.all(
+        recordDates
+          .split(",")
+          .filter(Boolean)
+          .map((date) =>
+            api.get<Delivery[]>(`/deliveries?driver=${driver._id}&date=${date}`)
+          )
+      );
+      setDeliveries(responses.flatMap((response) => response.data));
+    } catch (error) {
+      // Error will be automatically shown by axios interceptor
+    } finally {
+      setLoading(false);
+    }
+  }, [driver, recordDates]);
+
+  useEffect(() => {
+    fetchDeliveries();
+  }, [fetchDeliveries]);
+
+  const getRecord = (stop: Stop) =>
+    deliveries.find(
+      (delivery) =>
+        delivery.order._id === stop.order._id &&
+        toDateKey(toLocalDay(delivery.scheduledDate)) ===
+          toDateKey(stop.scheduledDate)
+    );
+
+  const doneCount = stops.filter((stop) => getRecord(stop)).length;
+
+  const handleConfirm = async (outcome: StopOutcome) => {
+    if (!pending || !driver) return;
+    const { order, scheduledDate } = pending.stop;
+
+    const payload: DeliveryPayload = {
+      order: order._id,
+      scheduledDate: toDateKey(scheduledDate),
+      status: outcome.status,
+      deliveredAt: new Date().toISOString(),
+      driver: driver._id,
+      items:
+        outcome.status === DeliveryStatus.DELIVERED
+          ? order.items.map(({ item, quantity }) => ({
+              item: item._id,
+              quantity,
+            }))
+          : [],
+      notes: outcome.notes,
+      failureReason: outcome.failureReason,
+      signature: outcome.signature,
+    };
+
+    setSaving(true);
+    try {
+      const response = await api.post<Delivery>("/deliveries", payload);
+      setDeliveries((prev) => [...prev, response.data]);
+      setPending(null);
+    } catch (error) {
+      // Error will be automatically shown by axios interceptor
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading || policyLoading) {
+    return (
+      <Box sx={{ display: "flex", justifyContent: "center", mt: 4 }}>
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  if (notLinked) {
+    return (
+      <Alert severity="warning">
+        Your account is not linked to a driver. Please contact the office.
+      </Alert>
+    );
+  }
+
+  return (
+    <Box sx={{ maxWidth: 600, mx: "auto" }}>
+      <Typography variant="h5">{format(today, "EEEE, MMM d")}</Typography>
+      <Typography color="text.secondary" gutterBottom>
+        {doneCount} of {stops.length} stops done
+      </Typography>
+      <LinearProgress
+        variant="determinate"
+        value={stops.length ? (doneCount / stops.length) * 100 : 0}
+        sx={{ mb: 2, height: 8, borderRadius: 4 }}
+      />
+
+      {stops.length === 0 && (
+        <Typography color="text.secondary" align="center" sx={{ py: 4 }}>
+          No deliveries planned for today
+        </Typography>
+      )}
+
+      {stops.map((stop, index) => {
+        const { order } = stop;
+        const record = getRecord(stop);
+        return (
+          <Card
+            key={order._id}
+            sx={{ mb: 2, opacity: record ? 0.7 : 1 }}
+            variant={record ? "outlined" : "elevation"}
+          >
+            <CardContent sx={{ pb: 1 }}>
+              <Box
+                sx={{
+                  display: "flex",
+                  justifyContent: "space-between",
+                  alignItems: "flex-start",
+                  gap: 1,
+                }}
+              >
+                <Box>
+                  <Typography variant="overline" color="text.secondary">
+                    Stop {index + 1} • Order #{order.orderNumber}
+                  </Typography>
+                  <Typography variant="h6">{order.customer.name}</Typography>
+                </Box>
+                {record && (
+                  <Chip
+                    label={formatDeliveryStatus(record.status)}
+                    color={deliveryStatusColors[record.status]}
+                    size="small"
+                  />
+                )}
+              </Box>
+              <Typography>
+                {order.customer.street} {order.customer.houseNumber}
+              </Typography>
+              <Typography color="text.secondary">
+                {order.customer.postalCode} {order.customer.city}
+              </Typography>
+              {order.items.length > 0 && (
+                <Typography variant="body2" sx={{ mt: 1 }}>
+                  {formatDeliveredItems(order.items)}
+                </Typography>
+              )}
+              {order.driverNote && (
+                <Alert severity="info" sx={{ mt: 1 }}>
+                  {order.driverNote}
+                </Alert>
+              )}
+              {record?.failureReason && (
+                <Typography variant="body2" color="error" sx={{ mt: 1 }}>
+                  {record.failureReason}
+                </Typography>
+              )}
+            </CardContent>
+            <CardActions sx={{ flexWrap: "wrap", gap: 1, px: 2, pb: 2 }}>
+              {order.customer.mobileNumber && (
+                <Button
+                  variant="outlined"
+                  startIcon={<PhoneIcon />}
+                  href={`tel:${order.customer.mobileNumber}`}
+                >
+                  Call
+                </Button>
+              )}
+              <Button
+                variant="outlined"
+                startIcon={<NavigationIcon />}
+                href={getNavigationUrl(order)}
+                target="_blank"
+                rel="noopener noreferrer"
+              >
+                Navigate
+              </Button>
+              {!record && (
+                <>
+                  <Button
+                    variant="contained"
+                    color="success"
+                    startIcon={<DeliveredIcon />}
+                    onClick={() =>
+                      setPending({ stop, status: DeliveryStatus.DELIVERED })
+                    }
+                  >
+                    Delivered
+                  </Button>
+                  <Button
+                    variant="contained"
+                    color="error"
+                    startIcon={<FailedIcon />}
+                    onClick={() =>
+                      setPending({ stop, status: DeliveryStatus.FAILED })
+                    }
+                  >
+                    Failed
+                  </Button>
+                </>
+              )}
+            </CardActions>
+          </Card>
+        );
+      })}
+
+      <StopOutcomeDialog
+        open={!!pending}
+        status={pending?.status || DeliveryStatus.DELIVERED}
+        customerName={pending?.stop.order.customer.name || ""}
+        saving={saving}
+        onCancel={() => setPending(null)}
+        onConfirm={handleConfirm}
+      />
+    </Box>
+  );
+};
+
+export default MyRoute;
@@ -17,8 +17,26 @@ import {
 import {
   ArrowBack as ArrowBackIcon,
   Print as PrintIcon,
+  PauseCircle as PauseIcon,
+  AssignmentTurnedIn as RecordIcon,
 } from "@mui/icons-material";
+import { format } from "date-fns";
 import api from "../utils/axios";
+import { OrderStatus, PauseWindow, StatusChange } from "../types/order";
+import {
+  OrderAction,
+  getNextStatus,
+  orderStatusColors,
+} from "../utils/orderStatus";
+import OrderStatusActions from "../components/OrderStatusActions";
+import OrderStatusTimeline from "../components/OrderStatusTimeline";
+import PauseOrderDialog from "../components/PauseOrderDialog";
+import DeliveryHistory from "../components/DeliveryHistory";
+import DeliveryRecordDialog from "../components/DeliveryRecordDialog";
+import { Delivery } from "../types/delivery";
+import { usePermissions } from "../hooks/usePermissions";
+import { Permission } from "../utils/permissions";
+import { getPauseEnd, toDateKey, toLocalDay } from "../utils/recurrence";
 
 enum PaymentMethod {
   CASH = "cash",
@@ -27,14 +45,6 @@ enum PaymentMethod {
   DELIVERY_NOTE = "delivery_note",
 }
 
-enum OrderStatus {
-  PENDING = "pending",
-  IN_PROGRESS = "in_progress",
-  COMPLETED = "completed",
-  CANCELLED = "cancelled",
-  PAUSED = "paused",
-}
-
 enum Frequency {
   DAILY = "daily",
   WEEKDAYS = "weekdays",
@@ -91,18 +101,17 @@ interface Order {
   status: OrderStatus;
   totalNetAmount: number;
   totalGrossAmount: number;
+  statusHistory?: StatusChange[];
+  pauseWindows?: PauseWindow[];
+  assignedDriver?: {
+    _id: string;
+    name: string;
+    driverNumber: string;
+  } | null;
   createdAt: string;
   updatedAt: string;
 }
 
-const statusColors = {
-  [OrderStatus.PENDING]: "warning",
-  [OrderStatus.IN_PROGRESS]: "info",
-  [OrderStatus.COMPLETED]: "success",
-  [OrderStatus.CANCELLED]: "error",
-  [OrderStatus.PAUSED]: "default",
-} as const;
-
 const OrderDetails: React.FC = () => {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
@@ -111,6 +120,12 @@ const OrderDetails: React.FC = () => {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState("");
   const [customerId, setCustomerId] = useState<string | null>(null);
+  const [pauseDialogOpen, setPauseDialogOpen] = useState(false);
+  const [deliveries, setDeliveries] = useState<Delivery[]>([]);
+  const [recordDialogOpen, setRecordDialogOpen] = useState(false);
+  const [editingDelivery, setEditingDelivery] = useState<Delivery | null>(null);
+  const { can } = usePermissions();
+  const canEdit = can(Permission.EDIT_ORDERS);
 
   const fetchOrder = useCallback(async () => {
     try {
@@ -124,9 +139,19 @@ const OrderDetails: React.FC = () => {
     }
   }, [id]);
 
+  const fetchDeliveries = useCallback(async () => {
+    try {
+      const response = await api.get<Delivery[]>(`/deliveries?order=${id}`);
+      setDeliveries(response.data);
+    } catch (error) {
+      // Error will be automatically shown by axios interceptor
+    }
+  }, [id]);
+
   useEffect(() => {
     fetchOrder();
-  }, [fetchOrder]);
+    fetchDeliveries();
+  }, [fetchOrder, fetchDeliveries]);
 
   const handleBack = () => {
     if (customerId && location.state?.from === "customer") {
@@ -136,6 +161,31 @@ const OrderDetails: React.FC = () => {
     }
   };
 
+  const handleStatusAction = async (action: OrderAction, reason?: string) => {
+    if (!order) return;
+
+    try {
+      // Throws when the order has moved on since it was loaded
+      const status = getNextStatus(order.status, action);
+      await api.post(`/orders/${order._id}/status`, { status, reason });
+      await fetchOrder();
+    } catch (error) {
+      // Error will be automatically shown by axios interceptor
+    }
+  };
+
+  const handleRemovePause = async (pause: PauseWindow) => {
+    if (!order || !pause._id) return;
+    if (!window.confirm("Are you sure you want to remove this pause?")) return;
+
+    try {
+      await api.delete(`/orders/${order._id}/pauses/${pause._id}`);
+      await fetchOrder();
+    } catch (error) {
+      // Error will be automatically shown by axios interceptor
+    }
+  };
+
   const handlePrint = () => {
     if (!order) return;
 
@@ -326,6 +376,8 @@ const OrderDetails: React.FC = () => {
     );
   }
 
+  const pauseEnd = getPauseEnd(order, new Date());
+
   return (
     <Box>
       <Box
@@ -342,14 +394,28 @@ const OrderDetails: React.FC = () => {
             ? "Customer"
             : "Orders"}
         </Button>
-        <Button
-          variant="contained"
-          startIcon={<PrintIcon />}
-          onClick={handlePrint}
-          sx={{ ml: 2 }}
-        >
-          Print Manifest
-        </Button>
+        <Box>
+          {canEdit &&
+            order.status !== OrderStatus.COMPLETED &&
+            order.status !== OrderStatus.CANCELLED && (
+              <Button
+                variant="outlined"
+                color="warning"
+                startIcon={<PauseIcon />}
+                onClick={() => setPauseDialogOpen(true)}
+              >
+                Pause Deliveries
+              </Button>
+            )}
+          <Button
+            variant="contained"
+            startIcon={<PrintIcon />}
+            onClick={handlePrint}
+            sx={{ ml: 2 }}
+          >
+            Print Manifest
+          </Button>
+        </Box>
       </Box>
 
       <Paper sx={{ p: 3, mb: 3 }}>
@@ -365,10 +431,27 @@ const OrderDetails: React.FC = () => {
               <strong>Status:</strong>{" "}
               <Chip
                 label={order.status.replace("_", " ").toUpperCase()}
-                color={statusColors[order.status]}
+                color={orderStatusColors[order.status]}
                 size="small"
               />
+              {pauseEnd && (
+                <Chip
+                  label={`Paused until ${format(pauseEnd, "MMM d, yyyy")}`}
+                  color="warning"
+                  size="small"
+                  variant="outlined"
+                  sx={{ ml: 1 }}
+                />
+              )}
             </Typography>
+            {canEdit && (
+              <Box sx={{ my: 1 }}>
+                <OrderStatusActions
+                  status={order.status}
+                  onAction={handleStatusAction}
+                />
+              </Box>
+            )}
             <Typography>
               <strong>Payment Method:</strong>{" "}
               {order.paymentMethod.replace("_", " ").toUpperCase()}
@@ -478,6 +561,71 @@ const OrderDetails: React.FC = () => {
           </Table>
         </TableContainer>
       </Paper>
+
+      <Paper sx={{ p: 3, mt: 3 }}>
+        <Box
+          sx={{
+            display: "flex",
+            justifyContent: "space-between",
+            alignItems: "center",
+            mb: 1,
+          }}
+        >
+          <Typography variant="h6">Delivery History</Typography>
+          <Button
+            variant="outlined"
+            startIcon={<RecordIcon />}
+            onClick={() => {
+              setEditingDelivery(null);
+              setRecordDialogOpen(true);
+            }}
+          >
+            Record Delivery
+          </Button>
+        </Box>
+        <DeliveryHistory
+          deliveries={deliveries}
+          onEdit={(delivery) => {
+            setEditingDelivery(delivery);
+            setRecordDialogOpen(true);
+          }}
+        />
+      </Paper>
+
+      <Paper sx={{ p: 3, mt: 3 }}>
+        <Typography variant="h6" gutterBottom>
+          Status History
+        </Typography>
+        <OrderStatusTimeline
+          history={order.statusHistory || []}
+          pauseWindows={order.pauseWindows}
+          onRemovePause={canEdit ? handleRemovePause : undefined}
+        />
+      </Paper>
+
+      <DeliveryRecordDialog
+        open={recordDialogOpen}
+        order={order}
+        delivery={editingDelivery}
+        recordedDates={deliveries.map((delivery) =>
+          toDateKey(toLocalDay(delivery.scheduledDate))
+        )}
+        onClose={() => setRecordDialogOpen(false)}
+        onSaved={() => {
+          setRecordDialogOpen(false);
+          fetchDeliveries();
+        }}
+      />
+
+      <PauseOrderDialog
+        open={pauseDialogOpen}
+        order={order}
+        onClose={() => setPauseDialogOpen(false)}
+        onSaved={() => {
+          setPauseDialogOpen(false);
+          fetchOrder();
+        }}
+      />
     </Box>
   );
 };
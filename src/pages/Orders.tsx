@@ -20,6 +20,7 @@ import {
   Edit as EditIcon,
   Delete as DeleteIcon,
   Visibility as ViewIcon,
+  PauseCircle as PauseIcon,
 } from "@mui/icons-material";
 import {
   DataGrid,
@@ -29,14 +30,18 @@ import {
 } from "@mui/x-data-grid";
 import api from "../utils/axios";
 import { useAuth } from "../context/AuthContext";
+import { usePermissions } from "../hooks/usePermissions";
+import { Permission } from "../utils/permissions";
 import { Customer } from "../types/customer";
 import { Item } from "../types/item";
 import { Order, OrderStatus, PaymentMethod, Frequency } from "../types/order";
 import OrderDialog from "../components/OrderDialog";
+import PauseOrderDialog from "../components/PauseOrderDialog";
 
 const Orders: React.FC = () => {
   const navigate = useNavigate();
   const { user } = useAuth();
+  const { can } = usePermissions();
   const [orders, setOrders] = useState<Order[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchQuery, setSearchQuery] = useState("");
@@ -45,6 +50,7 @@ const Orders: React.FC = () => {
   const [customers, setCustomers] = useState<Customer[]>([]);
   const [items, setItems] = useState<Item[]>([]);
   const [openCustomerDialog, setOpenCustomerDialog] = useState(false);
+  const [pauseOrder, setPauseOrder] = useState<Order | null>(null);
 
   useEffect(() => {
     fetchOrders();
@@ -221,7 +227,7 @@ const Orders: React.FC = () => {
       {
         field: "actions",
         headerName: "Actions",
-        width: 150,
+        width: 190,
         renderCell: (params: GridRenderCellParams<Order>) => {
           const row = params.row;
           return (
@@ -233,26 +239,43 @@ const Orders: React.FC = () => {
               >
                 <ViewIcon />
               </IconButton>
-              <IconButton
-                size="small"
-                onClick={() => handleOpenDialog(row)}
-                color="primary"
-              >
-                <EditIcon />
-              </IconButton>
-              <IconButton
-                size="small"
-                onClick={() => handleDelete(row._id)}
-                color="error"
-              >
-                <DeleteIcon />
-              </IconButton>
+              {can(Permission.EDIT_ORDERS) && (
+                <>
+                  <IconButton
+                    size="small"
+                    onClick={() => handleOpenDialog(row)}
+                    color="primary"
+                  >
+                    <EditIcon />
+                  </IconButton>
+                  <IconButton
+                    size="small"
+                    onClick={() => setPauseOrder(row)}
+                    color="warning"
+                    disabled={
+                      row.status === OrderStatus.COMPLETED ||
+                      row.status === OrderStatus.CANCELLED
+                    }
+                  >
+                    <PauseIcon />
+                  </IconButton>
+                </>
+              )}
+              {can(Permission.DELETE_ORDERS) && (
+                <IconButton
+                  size="small"
+                  onClick={() => handleDelete(row._id)}
+                  color="error"
+                >
+                  <DeleteIcon />
+                </IconButton>
+              )}
             </Box>
           );
         },
       },
     ],
-    [handleOpenDialog, navigate, handleDelete]
+    [handleOpenDialog, navigate, handleDelete, can]
   );
 
   const filteredOrders = useMemo(
@@ -271,13 +294,15 @@ const Orders: React.FC = () => {
         <Typography variant="h5" component="h1">
           Orders
         </Typography>
-        <Button
-          variant="contained"
-          startIcon={<AddIcon />}
-          onClick={() => handleOpenDialog()}
-        >
-          Add Order
-        </Button>
+        {can(Permission.EDIT_ORDERS) && (
+          <Button
+            variant="contained"
+            startIcon={<AddIcon />}
+            onClick={() => handleOpenDialog()}
+          >
+            Add Order
+          </Button>
+        )}
       </Box>
 
       <Paper sx={{ p: 2, mb: 3 }}>
@@ -332,6 +357,16 @@ const Orders: React.FC = () => {
         onAddCustomer={() => setOpenCustomerDialog(true)}
       />
 
+      <PauseOrderDialog
+        open={!!pauseOrder}
+        order={pauseOrder}
+        onClose={() => setPauseOrder(null)}
+        onSaved={() => {
+          setPauseOrder(null);
+          fetchOrders();
+        }}
+      />
+
       {/* Customer Creation Dialog */}
       <Dialog
         open={openCustomerDialog}
@@ -1,29 +1,69 @@
-import React, { useState, useEffect, useCallback } from "react";
+import React, { useState, useEffect, useCallback, useMemo } from "react";
 import {
   Box,
   Paper,
   Typography,
-  Button,
-  Dialog,
-  DialogTitle,
-  DialogContent,
-  DialogActions,
-  TextField,
-  MenuItem,
-  FormControl,
-  InputLabel,
-  Select,
-  SelectChangeEvent,
   CircularProgress,
-  Autocomplete,
+  ToggleButton,
+  ToggleButtonGroup,
+  Chip,
 } from "@mui/material";
 import { DateCalendar } from "@mui/x-date-pickers/DateCalendar";
 import { LocalizationProvider } from "@mui/x-date-pickers/LocalizationProvider";
 import { AdapterDateFns } from "@mui/x-date-pickers/AdapterDateFns";
-import { format } from "date-fns";
+import {
+  DndContext,
+  DragEndEvent,
+  DragOverlay,
+  DragStartEvent,
+  KeyboardSensor,
+  PointerSensor,
+  closestCorners,
+  useSensor,
+  useSensors,
+} from "@dnd-kit/core";
+import { arrayMove, sortableKeyboardCoordinates } from "@dnd-kit/sortable";
+import { endOfMonth, format, startOfMonth } from "date-fns";
 import api from "../utils/axios";
+import {
+  DriverConflict,
+  ScheduledDelivery,
+  getDeliveriesOn,
+  getDriverConflicts,
+  getDriverUnavailability,
+  VacationOutcome,
+} from "../utils/vacation";
+import { toDateKey } from "../utils/recurrence";
+import { getDailyLoad } from "../utils/planning";
+import {
+  compareDeliverySequence,
+  hasCustomerLocation,
+} from "../utils/deliverySequence";
+import {
+  DriverCapacity,
+  LoadItem,
+  addLoadTotals,
+  getCapacityIssues,
+  getCapacityUsage,
+  getLoadTotals,
+  isWorkingDay,
+} from "../utils/capacity";
+import { useVacationPolicy } from "../context/VacationPolicyContext";
+import VacationPolicySelect from "../components/VacationPolicySelect";
+import DriverAvailabilityChip from "../components/DriverAvailabilityChip";
+import DriverConflictDialog from "../components/DriverConflictDialog";
+import PlanningColumn from "../components/PlanningColumn";
+import CapacityBars from "../components/CapacityBars";
+import CapacityWarningDialog from "../components/CapacityWarningDialog";
+import LoadCalendarDay, {
+  LoadCalendarDayProps,
+} from "../components/LoadCalendarDay";
+import PlanningPeriodView, {
+  PeriodView,
+} from "../components/PlanningPeriodView";
+import PlanningCard, { PlanningCardContent } from "../components/PlanningCard";
 
-interface Driver {
+interface Driver extends DriverCapacity {
   _id: string;
   name: string;
   street: string;
@@ -33,6 +73,9 @@ interface Driver {
   driverNumber: string;
   email?: string;
   mobileNumber?: string;
+  status: string;
+  vacationStartDate?: string;
+  vacationEndDate?: string;
 }
 
 interface Order {
@@ -41,39 +84,73 @@ interface Order {
   customer: {
     id: string;
     name: string;
+    status: string;
+    vacationStartDate?: string | null;
+    vacationEndDate?: string | null;
+    latitude?: number;
+    longitude?: number;
   };
   status: string;
   startDate: string;
-  endDate: string;
+  endDate?: string;
+  frequency?: string;
   assignedDriver?: Driver;
+  deliverySequence?: number;
+  items?: LoadItem[];
+}
+
+interface PendingMove {
+  orderId: string;
+  from: string;
+  to: string;
+  index: number;
 }
 
+interface CapacityCheck {
+  move: PendingMove;
+  issues: string[];
+  blocked: boolean;
+}
+
+type BoardView = "day" | PeriodView;
+
+const UNASSIGNED = "unassigned";
+
+const getColumnId = (order: Order) => order.assignedDriver?._id || UNASSIGNED;
+
 const PlanningBoard: React.FC = () => {
   const [selectedDate, setSelectedDate] = useState<Date>(new Date());
+  const [view, setView] = useState<BoardView>("day");
+  const [visibleMonth, setVisibleMonth] = useState<Date>(() =>
+    startOfMonth(new Date())
+  );
   const [orders, setOrders] = useState<Order[]>([]);
   const [drivers, setDrivers] = useState<Driver[]>([]);
-  const [openDialog, setOpenDialog] = useState(false);
-  const [selectedOrder, setSelectedOrder] = useState<Order | null>(null);
-  const [selectedDriver, setSelectedDriver] = useState<Driver | null>(null);
   const [loading, setLoading] = useState(true);
+  const { policy, setPolicy } = useVacationPolicy();
+  // Order ids per column, kept locally so drops show up immediately
+  const [columns, setColumns] = useState<Record<string, string[]>>({});
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [pendingMove, setPendingMove] = useState<PendingMove | null>(null);
+  const [conflicts, setConflicts] = useState<DriverConflict<Order>[]>([]);
+  const [capacityCheck, setCapacityCheck] = useState<CapacityCheck | null>(
+    null
+  );
 
-  useEffect(() => {
-    fetchOrders();
-    fetchDrivers();
-  }, []);
-
-  useEffect(() => {
-    fetchOrders();
-  }, [selectedDate]);
+  const sensors = useSensors(
+    useSensor(PointerSensor, { activationConstraint: { distance: 5 } }),
+    useSensor(KeyboardSensor, {
+      coordinateGetter: sortableKeyboardCoordinates,
+    })
+  );
 
+  // Recurring orders are expanded client-side, so load them all once
+  // instead of querying by the selected date. Only the first load shows the
+  // spinner so the board stays in place while moves are saved.
   const fetchOrders = useCallback(async () => {
     try {
-      setLoading(true);
       const response = await api.get<Order[]>("/orders", {
-        params: {
-          date: format(selectedDate, "yyyy-MM-dd"),
-          allOrders: true,
-        },
+        params: { allOrders: true },
       });
       setOrders(response.data);
     } catch (error) {
@@ -81,7 +158,7 @@ const PlanningBoard: React.FC = () => {
     } finally {
       setLoading(false);
     }
-  }, [selectedDate]);
+  }, []);
 
   const fetchDrivers = useCallback(async () => {
     try {
@@ -92,221 +169,416 @@ const PlanningBoard: React.FC = () => {
     }
   }, []);
 
+  useEffect(() => {
+    fetchOrders();
+    fetchDrivers();
+  }, [fetchOrders, fetchDrivers]);
+
+  // The calendar follows the selected date, e.g. after drilling in from the
+  // month view
+  useEffect(() => {
+    setVisibleMonth(startOfMonth(selectedDate));
+  }, [selectedDate]);
+
   const handleDateChange = (date: Date | null) => {
     if (date) {
       setSelectedDate(date);
     }
   };
 
-  const handleAssignDriver = useCallback(
-    async (orderId: string, driverId: string) => {
-      try {
-        await api.patch(`/orders/${orderId}`, { driver: driverId });
-        fetchOrders();
-      } catch (error) {
-        // Error will be automatically shown by axios interceptor
-      }
-    },
-    [fetchOrders]
+  // Heatmap for the month shown in the calendar
+  const monthLoads = useMemo(
+    () =>
+      getDailyLoad(
+        orders,
+        startOfMonth(visibleMonth),
+        endOfMonth(visibleMonth),
+        policy
+      ),
+    [orders, visibleMonth, policy]
+  );
+  const maxMonthTotal = Math.max(
+    0,
+    ...Object.values(monthLoads).map((load) => load.total)
+  );
+  // Extra props of the calendar's day slot, on top of the picker's own
+  const daySlotProps: Partial<LoadCalendarDayProps> = {
+    loads: monthLoads,
+    maxTotal: maxMonthTotal,
+  };
+
+  const deliveries = useMemo(
+    () => getDeliveriesOn(orders, selectedDate, policy),
+    [orders, selectedDate, policy]
+  );
+
+  const deliveriesById = useMemo(
+    () =>
+      deliveries.reduce<Record<string, ScheduledDelivery<Order>>>(
+        (byId, delivery) => {
+          byId[delivery.order._id] = delivery;
+          return byId;
+        },
+        {}
+      ),
+    [deliveries]
   );
 
-  const handleDriverChange = (
-    _event: React.SyntheticEvent,
-    value: Driver | null
-  ) => {
-    setSelectedDriver(value);
+  useEffect(() => {
+    const next: Record<string, string[]> = { [UNASSIGNED]: [] };
+    drivers.forEach((driver) => {
+      next[driver._id] = [];
+    });
+    [...deliveries]
+      .sort((a, b) => compareDeliverySequence(a.order, b.order))
+      .forEach(({ order }) => {
+        const columnId = getColumnId(order);
+        // Orders of drivers that no longer exist end up unassigned
+        (next[columnId] || next[UNASSIGNED]).push(order._id);
+      });
+    setColumns(next);
+  }, [deliveries, drivers]);
+
+  const findColumn = (id: string) =>
+    id in columns
+      ? id
+      : Object.keys(columns).find((columnId) => columns[columnId].includes(id));
+
+  // Skipped stops and unlocated ones not yet placed on the route stay out of
+  // the sequence, giving them one would take them out of the route's
+  // unlocated tray
+  const saveSequence = async (driverId: string, orderIds: string[]) => {
+    await api.post("/orders/update-sequence", {
+      orderIds: orderIds.filter((id) => {
+        const delivery = deliveriesById[id];
+        return (
+          delivery &&
+          delivery.vacation !== VacationOutcome.SKIPPED &&
+          (hasCustomerLocation(delivery.order) ||
+            !!delivery.order.deliverySequence)
+        );
+      }),
+      driverId,
+      deliveryDate: toDateKey(selectedDate),
+    });
   };
 
-  const handleSaveAssignment = async () => {
-    if (!selectedOrder || !selectedDriver) return;
+  const moveOrder = async ({ orderId, from, to, index }: PendingMove) => {
+    const target = columns[to].filter((id) => id !== orderId);
+    target.splice(index, 0, orderId);
+    setColumns((prev) => ({
+      ...prev,
+      [from]: prev[from].filter((id) => id !== orderId),
+      [to]: target,
+    }));
 
     try {
-      await api.patch(`/orders/${selectedOrder._id}`, {
-        assignedDriver: selectedDriver._id,
+      await api.patch(`/orders/${orderId}`, {
+        assignedDriver: to === UNASSIGNED ? null : to,
       });
-      fetchOrders();
-      setOpenDialog(false);
-      setSelectedDriver(null);
-      setSelectedOrder(null);
+      if (to !== UNASSIGNED) {
+        await saveSequence(to, target);
+      }
     } catch (error) {
       // Error will be automatically shown by axios interceptor
+    } finally {
+      fetchOrders();
+    }
+  };
+
+  // Skipped deliveries do not use any capacity
+  const getColumnTotals = (columnId: string) =>
+    getLoadTotals(
+      (columns[columnId] || [])
+        .map((id) => deliveriesById[id])
+        .filter(
+          (delivery) =>
+            delivery && delivery.vacation !== VacationOutcome.SKIPPED
+        )
+        .map((delivery) => delivery.order)
+    );
+
+  const checkCapacityAndMove = async (move: PendingMove) => {
+    const driver = drivers.find((d) => d._id === move.to);
+    const order = deliveriesById[move.orderId]?.order;
+    if (driver && order) {
+      const issues = getCapacityIssues(
+        driver,
+        addLoadTotals(getColumnTotals(move.to), getLoadTotals([order])),
+        selectedDate
+      );
+      if (issues.length > 0) {
+        setCapacityCheck({
+          move,
+          issues,
+          blocked: !!driver.blockOverCapacity,
+        });
+        return;
+      }
+    }
+    await moveOrder(move);
+  };
+
+  const handleDragStart = (event: DragStartEvent) => {
+    setActiveId(String(event.active.id));
+  };
+
+  const handleDragEnd = async (event: DragEndEvent) => {
+    setActiveId(null);
+    const { active, over } = event;
+    if (!over) return;
+
+    const orderId = String(active.id);
+    const overId = String(over.id);
+    const from = findColumn(orderId);
+    const to = findColumn(overId);
+    if (!from || !to) return;
+
+    // Dropping on the column itself appends to the end
+    const overIndex = columns[to].indexOf(overId);
+    const index = overIndex >= 0 ? overIndex : columns[to].length;
+
+    if (from === to) {
+      const oldIndex = columns[from].indexOf(orderId);
+      if (oldIndex === index || overIndex < 0) return;
+
+      const reordered = arrayMove(columns[from], oldIndex, index);
+      setColumns((prev) => ({ ...prev, [from]: reordered }));
+      if (from !== UNASSIGNED) {
+        try {
+          await saveSequence(from, reordered);
+        } catch (error) {
+          // Error will be automatically shown by axios interceptor
+        }
+      }
+      return;
     }
+
+    const move = { orderId, from, to, index };
+    const driver = drivers.find((d) => d._id === to);
+    const order = deliveriesById[orderId]?.order;
+    if (driver && order) {
+      const driverConflicts = getDriverConflicts(driver, [order], selectedDate);
+      if (driverConflicts.length > 0) {
+        setPendingMove(move);
+        setConflicts(driverConflicts);
+        return;
+      }
+    }
+
+    await checkCapacityAndMove(move);
   };
 
-  const filteredOrders = orders.filter((order) => {
-    const orderDate = new Date(order.startDate);
+  const renderCard = (orderId: string) => {
+    const delivery = deliveriesById[orderId];
+    if (!delivery) return null;
     return (
-      orderDate.getDate() === selectedDate.getDate() &&
-      orderDate.getMonth() === selectedDate.getMonth() &&
-      orderDate.getFullYear() === selectedDate.getFullYear()
+      <PlanningCard
+        key={orderId}
+        id={orderId}
+        orderNumber={delivery.order.orderNumber}
+        customerName={delivery.order.customer.name}
+        vacation={delivery.vacation}
+        originalDate={delivery.originalDate}
+      />
     );
-  });
+  };
+
+  const activeDelivery = activeId ? deliveriesById[activeId] : null;
 
   return (
     <Box>
-      <Typography variant="h4" gutterBottom>
-        Planning Board
-      </Typography>
-
-      <Box sx={{ display: "grid", gridTemplateColumns: "400px 1fr", gap: 3 }}>
-        <Paper sx={{ p: 2, width: "100%" }}>
-          <LocalizationProvider dateAdapter={AdapterDateFns}>
-            <DateCalendar
-              value={selectedDate}
-              onChange={handleDateChange}
-              sx={{
-                width: "100%",
-                "& .MuiPickersCalendarHeader-root": { width: "100%" },
-              }}
-            />
-          </LocalizationProvider>
-        </Paper>
+      <Box
+        sx={{
+          display: "flex",
+          justifyContent: "space-between",
+          alignItems: "center",
+          mb: 2,
+        }}
+      >
+        <Typography variant="h4">Planning Board</Typography>
+        <Box sx={{ display: "flex", alignItems: "center", gap: 2 }}>
+          <ToggleButtonGroup
+            value={view}
+            exclusive
+            size="small"
+            onChange={(_event, value: BoardView | null) =>
+              value && setView(value)
+            }
+          >
+            <ToggleButton value="day">Day</ToggleButton>
+            <ToggleButton value="week">Week</ToggleButton>
+            <ToggleButton value="month">Month</ToggleButton>
+          </ToggleButtonGroup>
+          <VacationPolicySelect value={policy} onChange={setPolicy} />
+        </Box>
+      </Box>
 
+      {view !== "day" ? (
         <Paper sx={{ p: 2 }}>
-          <Typography variant="h6" gutterBottom>
-            Orders for {format(selectedDate, "MMMM d, yyyy")}
-          </Typography>
-
           {loading ? (
             <Box sx={{ display: "flex", justifyContent: "center", p: 3 }}>
               <CircularProgress />
             </Box>
-          ) : filteredOrders.length === 0 ? (
-            <Typography color="text.secondary">
-              No orders scheduled for this date
-            </Typography>
           ) : (
-            filteredOrders.map((order) => (
-              <Paper
-                key={order._id}
+            <PlanningPeriodView
+              view={view}
+              date={selectedDate}
+              orders={orders}
+              drivers={drivers}
+              policy={policy}
+              onDateChange={setSelectedDate}
+              onSelectDay={(day) => {
+                setSelectedDate(day);
+                setView("day");
+              }}
+            />
+          )}
+        </Paper>
+      ) : (
+        <Box sx={{ display: "grid", gridTemplateColumns: "400px 1fr", gap: 3 }}>
+          <Paper sx={{ p: 2, width: "100%", alignSelf: "start" }}>
+            <LocalizationProvider dateAdapter={AdapterDateFns}>
+              <DateCalendar
+                value={selectedDate}
+                onChange={handleDateChange}
+                onMonthChange={(month) => setVisibleMonth(month)}
+                slots={{ day: LoadCalendarDay }}
+                slotProps={{ day: daySlotProps }}
                 sx={{
-                  p: 2,
-                  mb: 2,
-                  display: "flex",
-                  justifyContent: "space-between",
-                  alignItems: "center",
+                  width: "100%",
+                  "& .MuiPickersCalendarHeader-root": { width: "100%" },
                 }}
+              />
+            </LocalizationProvider>
+          </Paper>
+
+          <Paper sx={{ p: 2, minWidth: 0 }}>
+            <Typography variant="h6" gutterBottom>
+              Orders for {format(selectedDate, "MMMM d, yyyy")}
+            </Typography>
+            <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+              Drag orders between drivers to assign them, or within a driver to
+              change the delivery sequence.
+            </Typography>
+
+            {loading ? (
+              <Box sx={{ display: "flex", justifyContent: "center", p: 3 }}>
+                <CircularProgress />
+              </Box>
+            ) : (
+              <DndContext
+                sensors={sensors}
+                collisionDetection={closestCorners}
+                onDragStart={handleDragStart}
+                onDragEnd={handleDragEnd}
+                onDragCancel={() => setActiveId(null)}
               >
-                <Box>
-                  <Typography variant="subtitle1">
-                    Order #{order.orderNumber}
-                  </Typography>
-                  <Typography color="text.secondary">
-                    Customer: {order.customer.name}
-                  </Typography>
-                  <Typography color="text.secondary">
-                    Driver:{" "}
-                    {order.assignedDriver
-                      ? `${order.assignedDriver.name} (${order.assignedDriver.driverNumber})`
-                      : "Not assigned"}
-                  </Typography>
-                </Box>
-                {!order.assignedDriver && (
-                  <Button
-                    variant="outlined"
-                    onClick={() => {
-                      setSelectedOrder(order);
-                      setOpenDialog(true);
-                    }}
+                <Box
+                  sx={{
+                    display: "flex",
+                    gap: 2,
+                    overflowX: "auto",
+                    pb: 1,
+                    alignItems: "stretch",
+                  }}
+                >
+                  <PlanningColumn
+                    id={UNASSIGNED}
+                    title="Unassigned"
+                    itemIds={columns[UNASSIGNED] || []}
                   >
-                    Assign Driver
-                  </Button>
-                )}
-              </Paper>
-            ))
-          )}
-        </Paper>
-      </Box>
+                    {(columns[UNASSIGNED] || []).map((id) => renderCard(id))}
+                  </PlanningColumn>
+                  {drivers.map((driver) => {
+                    const unavailability = getDriverUnavailability(
+                      driver,
+                      selectedDate
+                    );
+                    const itemIds = columns[driver._id] || [];
+                    return (
+                      <PlanningColumn
+                        key={driver._id}
+                        id={driver._id}
+                        title={driver.name}
+                        subtitle={`Driver #${driver.driverNumber}`}
+                        badge={
+                          <>
+                            {unavailability && (
+                              <DriverAvailabilityChip
+                                driver={driver}
+                                unavailability={unavailability}
+                              />
+                            )}
+                            {!isWorkingDay(driver, selectedDate) && (
+                              <Chip label="Day off" size="small" />
+                            )}
+                            <CapacityBars
+                              usage={getCapacityUsage(
+                                driver,
+                                getColumnTotals(driver._id)
+                              )}
+                              dense
+                            />
+                          </>
+                        }
+                        itemIds={itemIds}
+                        dimmed={!!unavailability}
+                      >
+                        {itemIds.map((id) => renderCard(id))}
+                      </PlanningColumn>
+                    );
+                  })}
+                </Box>
+                <DragOverlay>
+                  {activeDelivery ? (
+                    <PlanningCardContent
+                      elevation={6}
+                      orderNumber={activeDelivery.order.orderNumber}
+                      customerName={activeDelivery.order.customer.name}
+                      vacation={activeDelivery.vacation}
+                      originalDate={activeDelivery.originalDate}
+                      sx={{ cursor: "grabbing" }}
+                    />
+                  ) : null}
+                </DragOverlay>
+              </DndContext>
+            )}
+          </Paper>
+        </Box>
+      )}
 
-      <Dialog
-        open={openDialog}
-        onClose={() => {
-          setOpenDialog(false);
-          setSelectedDriver(null);
-          setSelectedOrder(null);
+      <DriverConflictDialog
+        open={conflicts.length > 0}
+        driver={
+          drivers.find((driver) => driver._id === pendingMove?.to) || null
+        }
+        conflicts={conflicts}
+        onCancel={() => {
+          setConflicts([]);
+          setPendingMove(null);
         }}
-        maxWidth="sm"
-        fullWidth
-      >
-        <DialogTitle>Assign Driver</DialogTitle>
-        <DialogContent>
-          <Box sx={{ mt: 2, minWidth: 400 }}>
-            <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
-              Assigning driver to Order #{selectedOrder?.orderNumber} -{" "}
-              {selectedOrder?.customer.name}
-            </Typography>
-            <Autocomplete
-              id="driver-select"
-              options={drivers}
-              getOptionLabel={(option) =>
-                `${option.name} (Driver #${option.driverNumber})`
-              }
-              value={selectedDriver}
-              onChange={handleDriverChange}
-              renderInput={(params) => (
-                <TextField
-                  {...params}
-                  label="Select Driver"
-                  placeholder="Search by name, number, email or mobile..."
-                  variant="outlined"
-                />
-              )}
-              renderOption={(props, option) => (
-                <li {...props}>
-                  <div>
-                    <strong>{option.name}</strong>
-                    <br />
-                    <small>Driver #{option.driverNumber}</small>
-                    {option.email && <br />}
-                    {option.email && <small>{option.email}</small>}
-                    {option.mobileNumber && <br />}
-                    {option.mobileNumber && (
-                      <small>{option.mobileNumber}</small>
-                    )}
-                  </div>
-                </li>
-              )}
-              loading={loading}
-              loadingText="Loading drivers..."
-              noOptionsText="No drivers found"
-              filterOptions={(options, { inputValue }) => {
-                const searchTerm = inputValue.toLowerCase();
-                return options.filter((option) => {
-                  const searchableFields = [
-                    option.name,
-                    option.driverNumber,
-                    option.email,
-                    option.mobileNumber,
-                    option.city,
-                  ].filter((field): field is string => Boolean(field));
-
-                  return searchableFields.some((field) =>
-                    field.toLowerCase().includes(searchTerm)
-                  );
-                });
-              }}
-            />
-          </Box>
-        </DialogContent>
-        <DialogActions>
-          <Button
-            onClick={() => {
-              setOpenDialog(false);
-              setSelectedDriver(null);
-              setSelectedOrder(null);
-            }}
-          >
-            Cancel
-          </Button>
-          <Button
-            onClick={handleSaveAssignment}
-            variant="contained"
-            disabled={!selectedDriver}
-          >
-            Save
-          </Button>
-        </DialogActions>
-      </Dialog>
+        onConfirm={() => {
+          setConflicts([]);
+          if (pendingMove) checkCapacityAndMove(pendingMove);
+          setPendingMove(null);
+        }}
+      />
+
+      <CapacityWarningDialog
+        open={!!capacityCheck}
+        driverName={
+          drivers.find((driver) => driver._id === capacityCheck?.move.to)
+            ?.name || ""
+        }
+        issues={capacityCheck?.issues || []}
+        blocked={!!capacityCheck?.blocked}
+        onCancel={() => setCapacityCheck(null)}
+        onConfirm={() => {
+          if (capacityCheck) moveOrder(capacityCheck.move);
+          setCapacityCheck(null);
+        }}
+      />
     </Box>
   );
 };
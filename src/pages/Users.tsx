@@ -0,0 +1,403 @@
+import React, { useEffect, useState, useMemo, useCallback } from "react";
+import {
+  Box,
+  Button,
+  Paper,
+  Typography,
+  TextField,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  IconButton,
+  InputAdornment,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  SelectChangeEvent,
+  FormControlLabel,
+  Switch,
+} from "@mui/material";
+import {
+  Add as AddIcon,
+  Search as SearchIcon,
+  Edit as EditIcon,
+  LockReset as ResetPasswordIcon,
+} from "@mui/icons-material";
+import { DataGrid, GridColDef, GridRenderCellParams } from "@mui/x-data-grid";
+import api from "../utils/axios";
+import { useDebounce } from "../hooks/useDebounce";
+import { useAuth } from "../context/AuthContext";
+import { User, UserRole } from "../types/user";
+import ResetPasswordDialog from "../components/ResetPasswordDialog";
+
+// Users as listed by the API, keyed by their database id
+interface ManagedUser extends Omit<User, "id"> {
+  _id: string;
+}
+
+const roleLabels: Record<UserRole, string> = {
+  [UserRole.ADMIN]: "Admin",
+  [UserRole.BACK_OFFICE]: "Back Office",
+  [UserRole.WAREHOUSE]: "Warehouse",
+  [UserRole.FIELD_SERVICE]: "Field Service",
+};
+
+const Users: React.FC = () => {
+  const { user: currentUser } = useAuth();
+  const [users, setUsers] = useState<ManagedUser[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [searchQuery, setSearchQuery] = useState("");
+  const [openDialog, setOpenDialog] = useState(false);
+  const [selectedUser, setSelectedUser] = useState<ManagedUser | null>(null);
+  const [passwordUser, setPasswordUser] = useState<ManagedUser | null>(null);
+  const [formData, setFormData] = useState({
+    firstName: "",
+    lastName: "",
+    email: "",
+    password: "",
+    role: UserRole.BACK_OFFICE,
+    isActive: true,
+  });
+
+  const fetchUsers = useCallback(async () => {
+    try {
+      const response = await api.get<ManagedUser[]>("/users");
+      setUsers(response.data);
+    } catch (error) {
+      // Error will be automatically shown by axios interceptor
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchUsers();
+  }, [fetchUsers]);
+
+  const handleOpenDialog = useCallback((user?: ManagedUser) => {
+    if (user) {
+      setSelectedUser(user);
+      setFormData({
+        firstName: user.firstName,
+        lastName: user.lastName,
+        email: user.email,
+        password: "",
+        role: user.role,
+        isActive: user.isActive,
+      });
+    } else {
+      setSelectedUser(null);
+      setFormData({
+        firstName: "",
+        lastName: "",
+        email: "",
+        password: "",
+        role: UserRole.BACK_OFFICE,
+        isActive: true,
+      });
+    }
+    setOpenDialog(true);
+  }, []);
+
+  const handleCloseDialog = useCallback(() => {
+    setOpenDialog(false);
+    setSelectedUser(null);
+  }, []);
+
+  const handleInputChange = useCallback(
+    (e: React.ChangeEvent<HTMLInputElement>) => {
+      const { name, value } = e.target;
+      setFormData((prev) => ({
+        ...prev,
+        [name]: value,
+      }));
+    },
+    []
+  );
+
+  const handleRoleChange = useCallback((e: SelectChangeEvent) => {
+    setFormData((prev) => ({
+      ...prev,
+      role: e.target.value as UserRole,
+    }));
+  }, []);
+
+  const handleSubmit = useCallback(async () => {
+    try {
+      if (selectedUser) {
+        // Passwords are only changed through a reset
+        const { password, ...payload } = formData;
+        await api.patch(`/users/${selectedUser._id}`, payload);
+      } else {
+        await api.post("/users", formData);
+      }
+      fetchUsers();
+      handleCloseDialog();
+    } catch (error) {
+      // Error will be automatically shown by axios interceptor
+    }
+  }, [selectedUser, formData, fetchUsers, handleCloseDialog]);
+
+  const handleToggleActive = useCallback(
+    async (user: ManagedUser) => {
+      const action = user.isActive ? "deactivate" : "activate";
+      if (
+        window.confirm(
+          `Are you sure you want to ${action} ${user.firstName} ${user.lastName}?`
+        )
+      ) {
+        try {
+          await api.patch(`/users/${user._id}`, { isActive: !user.isActive });
+          fetchUsers();
+        } catch (error) {
+          // Error will be automatically shown by axios interceptor
+        }
+      }
+    },
+    [fetchUsers]
+  );
+
+  const debouncedSetSearchQuery = useDebounce((value: string) => {
+    setSearchQuery(value);
+  }, 300);
+
+  const handleSearchChange = useCallback(
+    (e: React.ChangeEvent<HTMLInputElement>) => {
+      debouncedSetSearchQuery(e.target.value);
+    },
+    [debouncedSetSearchQuery]
+  );
+
+  const columns: GridColDef[] = useMemo(
+    () => [
+      {
+        field: "name",
+        headerName: "Name",
+        flex: 1,
+        valueGetter: (_value, row: ManagedUser) =>
+          `${row.firstName} ${row.lastName}`,
+      },
+      { field: "email", headerName: "Email", flex: 1 },
+      {
+        field: "role",
+        headerName: "Role",
+        width: 150,
+        valueGetter: (value: UserRole) => roleLabels[value] || value,
+      },
+      {
+        field: "isActive",
+        headerName: "Status",
+        width: 160,
+        renderCell: (params: GridRenderCellParams) => (
+          <FormControlLabel
+            control={
+              <Switch
+                size="small"
+                checked={!!params.value}
+                // Admins cannot lock themselves out
+                disabled={params.row._id === currentUser?.id}
+                onChange={() => handleToggleActive(params.row as ManagedUser)}
+              />
+            }
+            label={
+              <Typography
+                variant="body2"
+                color={params.value ? "success.main" : "error.main"}
+              >
+                {params.value ? "Active" : "Inactive"}
+              </Typography>
+            }
+          />
+        ),
+      },
+      {
+        field: "actions",
+        headerName: "Actions",
+        width: 120,
+        renderCell: (params: GridRenderCellParams) => (
+          <Box>
+            <IconButton
+              size="small"
+              onClick={() => handleOpenDialog(params.row as ManagedUser)}
+              color="primary"
+            >
+              <EditIcon />
+            </IconButton>
+            <IconButton
+              size="small"
+              onClick={() => setPasswordUser(params.row as ManagedUser)}
+              color="primary"
+            >
+              <ResetPasswordIcon />
+            </IconButton>
+          </Box>
+        ),
+      },
+    ],
+    [handleOpenDialog, handleToggleActive, currentUser]
+  );
+
+  const filteredUsers = useMemo(
+    () =>
+      users.filter((user) =>
+        [user.firstName, user.lastName, user.email, roleLabels[user.role]].some(
+          (value) => value?.toLowerCase().includes(searchQuery.toLowerCase())
+        )
+      ),
+    [users, searchQuery]
+  );
+
+  return (
+    <Box sx={{ height: "100%", width: "100%" }}>
+      <Box sx={{ display: "flex", justifyContent: "space-between", mb: 2 }}>
+        <Typography variant="h5" component="h1">
+          Users
+        </Typography>
+        <Button
+          variant="contained"
+          startIcon={<AddIcon />}
+          onClick={() => handleOpenDialog()}
+        >
+          Add User
+        </Button>
+      </Box>
+
+      <Paper sx={{ p: 2, mb: 3 }}>
+        <TextField
+          fullWidth
+          variant="outlined"
+          placeholder="Search users..."
+          onChange={handleSearchChange}
+          InputProps={{
+            startAdornment: (
+              <InputAdornment position="start">
+                <SearchIcon />
+              </InputAdornment>
+            ),
+          }}
+        />
+      </Paper>
+
+      <Paper sx={{ height: "calc(100% - 120px)" }}>
+        <DataGrid
+          rows={filteredUsers}
+          columns={columns}
+          getRowId={(row) => row._id}
+          initialState={{
+            pagination: {
+              paginationModel: { pageSize: 10, page: 0 },
+            },
+          }}
+          pageSizeOptions={[10]}
+          disableRowSelectionOnClick
+          loading={loading}
+        />
+      </Paper>
+
+      <Dialog
+        open={openDialog}
+        onClose={handleCloseDialog}
+        maxWidth="sm"
+        fullWidth
+      >
+        <DialogTitle>{selectedUser ? "Edit User" : "Add User"}</DialogTitle>
+        <DialogContent>
+          <Box
+            sx={{
+              display: "grid",
+              gridTemplateColumns: "1fr 1fr",
+              gap: 2,
+              mt: 2,
+            }}
+          >
+            <TextField
+              name="firstName"
+              label="First Name"
+              value={formData.firstName}
+              onChange={handleInputChange}
+              required
+              fullWidth
+            />
+            <TextField
+              name="lastName"
+              label="Last Name"
+              value={formData.lastName}
+              onChange={handleInputChange}
+              required
+              fullWidth
+            />
+            <TextField
+              name="email"
+              label="Email"
+              type="email"
+              value={formData.email}
+              onChange={handleInputChange}
+              required
+              fullWidth
+            />
+            <FormControl fullWidth>
+              <InputLabel>Role</InputLabel>
+              <Select
+                name="role"
+                value={formData.role}
+                onChange={handleRoleChange}
+                label="Role"
+                disabled={selectedUser?._id === currentUser?.id}
+              >
+                {Object.values(UserRole).map((role) => (
+                  <MenuItem key={role} value={role}>
+                    {roleLabels[role]}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+            {!selectedUser && (
+              <TextField
+                name="password"
+                label="Password"
+                type="password"
+                value={formData.password}
+                onChange={handleInputChange}
+                autoComplete="new-password"
+                required
+                fullWidth
+              />
+            )}
+            <FormControlLabel
+              control={
+                <Switch
+                  checked={formData.isActive}
+                  disabled={selectedUser?._id === currentUser?.id}
+                  onChange={(e) =>
+                    setFormData((prev) => ({
+                      ...prev,
+                      isActive: e.target.checked,
+                    }))
+                  }
+                />
+              }
+              label="Active"
+            />
+          </Box>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={handleCloseDialog}>Cancel</Button>
+          <Button onClick={handleSubmit} variant="contained">
+            {selectedUser ? "Save Changes" : "Add User"}
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      <ResetPasswordDialog
+        open={!!passwordUser}
+        user={passwordUser}
+        onClose={() => setPasswordUser(null)}
+        onSaved={() => setPasswordUser(null)}
+      />
+    </Box>
+  );
+};
+
+export default Users;
@@ -0,0 +1,63 @@
+export enum DeliveryStatus {
+  DELIVERED = "delivered",
+  FAILED = "failed",
+  SKIPPED = "skipped",
+  RESCHEDULED = "rescheduled",
+}
+
+export interface DeliveredItem {
+  item: {
+    _id: string;
+    filterType: string;
+    length: number;
+    width: number;
+    depth: number;
+    unitOfMeasure: string;
+  };
+  quantity: number;
+}
+
+// What actually happened on one occurrence of a recurring order
+export interface Delivery {
+  _id: string;
+  order: {
+    _id: string;
+    orderNumber: string;
+  };
+  customer: {
+    _id: string;
+    name: string;
+  };
+  // The occurrence this record belongs to
+  scheduledDate: string;
+  status: DeliveryStatus;
+  deliveredAt: string;
+  driver?: {
+    _id: string;
+    name: string;
+    driverNumber: string;
+  } | null;
+  items: DeliveredItem[];
+  notes?: string;
+  failureReason?: string;
+  rescheduledTo?: string | null;
+  // Data URLs
+  signature?: string | null;
+  photo?: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface DeliveryPayload {
+  order: string;
+  scheduledDate: string;
+  status: DeliveryStatus;
+  deliveredAt: string;
+  driver: string | null;
+  items: { item: string; quantity: number }[];
+  notes?: string;
+  failureReason?: string;
+  rescheduledTo?: string | null;
+  signature?: string | null;
+  photo?: string | null;
+}
@@ -33,6 +33,33 @@ export enum VatRate {
   STANDARD = 19,
 }
 
+// The back-office user who made a change, populated by the backend
+export interface ChangedBy {
+  firstName: string;
+  lastName: string;
+  email: string;
+}
+
+export interface StatusChange {
+  // Missing for the entry recorded when the order was created
+  from?: OrderStatus | null;
+  to: OrderStatus;
+  reason?: string;
+  changedAt: string;
+  changedBy?: ChangedBy | null;
+}
+
+// Deliveries from `from` to `to` (both inclusive) are suspended, the order
+// continues on its own afterwards
+export interface PauseWindow {
+  _id?: string;
+  from: string;
+  to: string;
+  reason: string;
+  createdAt?: string;
+  createdBy?: ChangedBy | null;
+}
+
 export interface OrderItem {
   item: Item;
   quantity: number;
@@ -53,6 +80,8 @@ export interface Order {
   endDate?: string;
   frequency?: Frequency;
   status: OrderStatus;
+  statusHistory?: StatusChange[];
+  pauseWindows?: PauseWindow[];
   totalNetAmount: number;
   totalGrossAmount: number;
   createdAt: string;
@@ -22,4 +22,5 @@ export interface LoginCredentials {
 export interface LoginResponse {
   user: User;
   token: string;
+  refreshToken?: string;
 }
@@ -0,0 +1,100 @@
+import { CustomerStatus } from "../types/customer";
+import { Frequency } from "../types/order";
+import { ProposalIssue, proposeAssignments } from "./autoAssign";
+import { VacationPolicy } from "./vacation";
+
+const from = new Date(2025, 5, 10);
+
+const makeOrder = (_id: string, latitude?: number, longitude?: number) => ({
+  _id,
+  startDate: "2025-06-10T00:00:00.000Z",
+  frequency: Frequency.WEEKLY,
+  customer: { status: CustomerStatus.ACTIVE, latitude, longitude },
+});
+
+const makeDriver = (_id: string, extra: object = {}) => ({
+  _id,
+  status: CustomerStatus.ACTIVE,
+  ...extra,
+});
+
+// Depots one degree of longitude apart
+const depots: Record<string, { lat: number; lng: number }> = {
+  west: { lat: 50, lng: 0 },
+  east: { lat: 50, lng: 1 },
+};
+
+const propose = (
+  orders: ReturnType<typeof makeOrder>[],
+  drivers: ReturnType<typeof makeDriver>[],
+  driverOrders: Record<string, ReturnType<typeof makeOrder>[]> = {}
+) =>
+  proposeAssignments(
+    orders,
+    drivers,
+    driverOrders,
+    (driver) => depots[driver._id] || null,
+    from,
+    VacationPolicy.SKIP
+  );
+
+describe("auto-assign", () => {
+  it("proposes the driver whose depot is closest", () => {
+    const [proposal] = propose(
+      [makeOrder("o1", 50, 0.9)],
+      [makeDriver("west"), makeDriver("east")]
+    );
+
+    expect(proposal.driverId).toBe("east");
+    expect(proposal.distance).toBeCloseTo(7.15, 1);
+  });
+
+  it("prefers a driver's existing stops over its depot", () => {
+    const [proposal] = propose(
+      [makeOrder("o1", 50, 0.9)],
+      [makeDriver("west"), makeDriver("east")],
+      { west: [makeOrder("existing", 50, 0.95)] }
+    );
+
+    expect(proposal.driverId).toBe("west");
+  });
+
+  it("leaves out unavailable drivers and drivers without capacity", () => {
+    const [proposal] = propose(
+      [makeOrder("o1", 50, 0.9)],
+      [
+        makeDriver("east", { status: CustomerStatus.INACTIVE }),
+        makeDriver("west", { maxStopsPerDay: 1 }),
+      ],
+      { west: [makeOrder("existing", 50, 0)] }
+    );
+
+    expect(proposal.driverId).toBeNull();
+    expect(proposal.issue).toBe(ProposalIssue.NO_DRIVER);
+  });
+
+  it("counts earlier proposals towards a driver's capacity", () => {
+    const proposals = propose(
+      [makeOrder("o1", 50, 0.9), makeOrder("o2", 50, 0.8)],
+      [makeDriver("east", { maxStopsPerDay: 1 }), makeDriver("west")]
+    );
+
+    expect(proposals.map((proposal) => proposal.driverId)).toEqual([
+      "east",
+      "west",
+    ]);
+  });
+
+  it("flags orders without a location or an upcoming delivery", () => {
+    const ended = {
+      ...makeOrder("o2", 50, 0.5),
+      endDate: "2025-06-05T00:00:00.000Z",
+    };
+    const proposals = propose([makeOrder("o1"), ended], [makeDriver("west")]);
+
+    expect(proposals.map((proposal) => proposal.issue)).toEqual([
+      ProposalIssue.NO_LOCATION,
+      ProposalIssue.NO_DELIVERY,
+    ]);
+  });
+});
@@ -0,0 +1,159 @@
+import { LatLng, haversineDistance } from "./geo";
+import { toDateKey } from "./recurrence";
+import {
+  ScheduledOrder,
+  VacationOutcome,
+  VacationPolicy,
+  VacationWindow,
+  getDeliveriesOn,
+  getDriverUnavailability,
+  getNextDelivery,
+} from "./vacation";
+import {
+  DayLoadTotals,
+  DriverCapacity,
+  LoadOrder,
+  addLoadTotals,
+  getCapacityIssues,
+  getLoadTotals,
+} from "./capacity";
+
+export interface AssignableOrder extends ScheduledOrder, LoadOrder {
+  _id: string;
+  customer: VacationWindow & { latitude?: number; longitude?: number };
+}
+
+export interface AssignableDriver extends VacationWindow, DriverCapacity {
+  _id: string;
+}
+
+export enum ProposalIssue {
+  NO_LOCATION = "no_location",
+  NO_DELIVERY = "no_delivery",
+  NO_DRIVER = "no_driver",
+}
+
+export interface AssignmentProposal<O> {
+  order: O;
+  // Day the check was made for, the order's next delivery
+  date: Date | null;
+  driverId: string | null;
+  // Kilometres to the nearest stop or home depot of the proposed driver
+  distance: number | null;
+  issue?: ProposalIssue;
+}
+
+const getLocation = (order: AssignableOrder): LatLng | null =>
+  order.customer.latitude && order.customer.longitude
+    ? { lat: order.customer.latitude, lng: order.customer.longitude }
+    : null;
+
+/**
+ * Proposes a driver for every order, one order at a time. Each order goes
+ * to the available driver with capacity left on its next delivery day whose
+ * stops (or home depot, for drivers without stops) are closest. Proposed orders
+ * count towards the driver's stops and load for the orders after it.
+ */
+export const proposeAssignments = <
+  O extends AssignableOrder,
+  D extends AssignableDriver
+>(
+  orders: O[],
+  drivers: D[],
+  driverOrders: Record<string, AssignableOrder[]>,
+  getDepotLocation: (driver: D) => LatLng | null,
+  from: Date,
+  policy: VacationPolicy
+): AssignmentProposal<O>[] => {
+  const stops: Record<string, LatLng[]> = {};
+  const proposed: Record<string, AssignableOrder[]> = {};
+  drivers.forEach((driver) => {
+    stops[driver._id] = (driverOrders[driver._id] || [])
+      .map(getLocation)
+      .filter((location): location is LatLng => Boolean(location));
+    proposed[driver._id] = [];
+  });
+
+  const loadCache = new Map<string, DayLoadTotals>();
+  const getDayLoad = (driverId: string, date: Date) => {
+    const key = `${driverId}|${toDateKey(date)}`;
+    const cached = loadCache.get(key);
+    if (cached) return cached;
+
+    const delivering = getDeliveriesOn(
+      [...(driverOrders[driverId] || []), ...proposed[driverId]],
+      date,
+      policy
+    )
+      .filter((delivery) => delivery.vacation !== VacationOutcome.SKIPPED)
+      .map((delivery) => delivery.order);
+    const totals = getLoadTotals(delivering);
+    loadCache.set(key, totals);
+    return totals;
+  };
+
+  return orders.map((order) => {
+    const location = getLocation(order);
+    if (!location) {
+      return {
+        order,
+        date: null,
+        driverId: null,
+        distance: null,
+        issue: ProposalIssue.NO_LOCATION,
+      };
+    }
+
+    const next = getNextDelivery(order, from, policy);
+    if (!next || next.vacation === VacationOutcome.SKIPPED) {
+      return {
+        order,
+        date: next?.date || null,
+        driverId: null,
+        distance: null,
+        issue: ProposalIssue.NO_DELIVERY,
+      };
+    }
+    const { date } = next;
+    const orderLoad = getLoadTotals([order]);
+
+    let best: { driver: D; distance: number } | null = null;
+    for (const driver of drivers) {
+      if (getDriverUnavailability(driver, date)) continue;
+      const load = addLoadTotals(getDayLoad(driver._id, date), orderLoad);
+      if (getCapacityIssues(driver, load, date).length > 0) continue;
+
+      const depot = getDepotLocation(driver);
+      const anchors =
+        stops[driver._id].length > 0 ? stops[driver._id] : depot ? [depot] : [];
+      if (anchors.length === 0) continue;
+
+      const distance = Math.min(
+        ...anchors.map((anchor) => haversineDistance(anchor, location))
+      );
+      if (!best || distance < best.distance) {
+        best = { driver, distance };
+      }
+    }
+
+    if (!best) {
+      return {
+        order,
+        date,
+        driverId: null,
+        distance: null,
+        issue: ProposalIssue.NO_DRIVER,
+      };
+    }
+
+    const { driver, distance } = best;
+    stops[driver._id].push(location);
+    proposed[driver._id].push(order);
+    // Loads of this driver have to be recomputed with the new order
+    Array.from(loadCache.keys())
+      .filter((key) => key.startsWith(`${driver._id}|`))
+      .forEach((key) => loadCache.delete(key));
+
+    return { order, date, driverId: driver._id, distance };
+  });
+};
@@ -0,0 +1,50 @@
+import api, { setSessionHandlers } from "./axios";
+import { REFRESH_TOKEN_KEY, TOKEN_KEY } from "./session";
+
+// Answers like a server that rejects every token, even fresh ones
+const rejectingAdapter =
+  (calls: string[]) => async (config: { url?: string }) => {
+    calls.push(config.url || "");
+    if (config.url === "/users/refresh") {
+      return {
+        data: { token: "fresh-token" },
+        status: 200,
+        statusText: "OK",
+        headers: {},
+        config,
+      };
+    }
+    return Promise.reject({
+      config,
+      response: { status: 401, data: {}, headers: {}, config },
+    });
+  };
+
+describe("axios session handling", () => {
+  // The installed axios typings predate the adapter option
+  const defaultAdapter = Reflect.get(api.defaults, "adapter");
+
+  afterEach(() => {
+    Reflect.set(api.defaults, "adapter", defaultAdapter);
+    setSessionHandlers(null);
+    localStorage.clear();
+  });
+
+  it("retries a rejected request once after refreshing the token", async () => {
+    const calls: string[] = [];
+    const onExpired = jest.fn();
+    const onRefreshed = jest.fn();
+    setSessionHandlers({ onRefreshed, onExpired });
+    localStorage.setItem(TOKEN_KEY, "old-token");
+    localStorage.setItem(REFRESH_TOKEN_KEY, "refresh-token");
+    Reflect.set(api.defaults, "adapter", rejectingAdapter(calls));
+
+    await expect(api.get("/orders")).rejects.toMatchObject({
+      response: { status: 401 },
+    });
+
+    expect(calls).toEqual(["/orders", "/users/refresh", "/orders"]);
+    expect(onRefreshed).toHaveBeenCalledWith("fresh-token");
+    expect(onExpired).toHaveBeenCalledTimes(1);
+  });
+});
@@ -1,4 +1,5 @@
 import axios from "axios";
+import { REFRESH_TOKEN_KEY, TOKEN_KEY } from "./session";
 
 const liveUrl = "https://delivery.dev-env.co";
 const localUrl = "http://localhost:5000";
@@ -65,10 +66,59 @@ const showGlobalError = (message: string) => {
   });
 };
 
+const LOGIN_URL = "/users/login";
+const REFRESH_URL = "/users/refresh";
+
+interface RefreshResponse {
+  token: string;
+  refreshToken?: string;
+}
+
+// Set by the AuthProvider so the session state follows token changes made
+// here
+interface SessionHandlers {
+  onRefreshed: (token: string) => void;
+  onExpired: () => void;
+}
+
+let sessionHandlers: SessionHandlers | null = null;
+
+export const setSessionHandlers = (handlers: SessionHandlers | null) => {
+  sessionHandlers = handlers;
+};
+
+// Concurrent 401s share one refresh request
+let refreshPromise: Promise<string> | null = null;
+
+const requestRefresh = async (): Promise<string> => {
+  const refreshToken = localStorage.getItem(REFRESH_TOKEN_KEY);
+  if (!refreshToken) {
+    throw new Error("No refresh token");
+  }
+  const { data } = await api.post<RefreshResponse>(REFRESH_URL, {
+    refreshToken,
+  });
+  localStorage.setItem(TOKEN_KEY, data.token);
+  if (data.refreshToken) {
+    localStorage.setItem(REFRESH_TOKEN_KEY, data.refreshToken);
+  }
+  sessionHandlers?.onRefreshed(data.token);
+  return data.token;
+};
+
+export const refreshAccessToken = (): Promise<string> => {
+  if (!refreshPromise) {
+    refreshPromise = requestRefresh().finally(() => {
+      refreshPromise = null;
+    });
+  }
+  return refreshPromise;
+};
+
 // Add a request interceptor to add the auth token to requests
 api.interceptors.request.use(
   (config) => {
-    const token = localStorage.getItem("token");
+    const token = localStorage.getItem(TOKEN_KEY);
     if (token && config.headers) {
       config.headers.Authorization = `Bearer ${token}`;
     }
@@ -82,12 +132,32 @@ api.interceptors.request.use(
 // Add a response interceptor to handle errors globally
 api.interceptors.response.use(
   (response) => response,
-  (error) => {
-    // Handle 401 errors (unauthorized)
-    if (error.response?.status === 401) {
-      localStorage.removeItem("token");
-      localStorage.removeItem("user");
-      window.location.href = "/login";
+  async (error) => {
+    const config = error.config;
+    const url = config?.url;
+
+    // A failed refresh is handled by whoever asked for it
+    if (url === REFRESH_URL) {
+      return Promise.reject(error);
+    }
+
+    // Handle 401 errors (unauthorized) by renewing the token and retrying
+    // once. Wrong credentials on the login form are regular errors.
+    if (error.response?.status === 401 && url !== LOGIN_URL) {
+      // Marked on the config itself, as axios passes a copy of it on to the
+      // retried request. A second 401 then ends the session.
+      if (config && !config._retried) {
+        try {
+          const token = await refreshAccessToken();
+          config.headers.Authorization = `Bearer ${token}`;
+          return api({ ...config, _retried: true });
+        } catch (refreshError) {
+          // Fall through to ending the session
+        }
+      }
+      // The AuthProvider logs out, the login page then brings the user back
+      // to where they were
+      sessionHandlers?.onExpired();
       return Promise.reject(error);
     }
 
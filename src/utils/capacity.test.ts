@@ -0,0 +1,105 @@
+import { UnitOfMeasure } from "../types/item";
+import {
+  CapacityMetric,
+  getCapacityIssues,
+  getCapacityUsage,
+  getItemVolume,
+  getLoadTotals,
+  isWorkingDay,
+} from "./capacity";
+
+// Half a metre on each side, in every unit
+const cube = (size: number, unitOfMeasure: UnitOfMeasure) => ({
+  length: size,
+  width: size,
+  depth: size,
+  unitOfMeasure,
+});
+
+const weekdays = { workingDays: [1, 2, 3, 4, 5] };
+
+describe("capacity", () => {
+  it("converts item dimensions to cubic metres", () => {
+    expect(getItemVolume(cube(500, UnitOfMeasure.MM))).toBeCloseTo(0.125);
+    expect(getItemVolume(cube(50, UnitOfMeasure.CM))).toBeCloseTo(0.125);
+    expect(getItemVolume(cube(0.5, UnitOfMeasure.M))).toBeCloseTo(0.125);
+  });
+
+  it("adds up orders with items in mixed units", () => {
+    const totals = getLoadTotals([
+      {
+        items: [
+          { item: cube(500, UnitOfMeasure.MM), quantity: 2 },
+          { item: cube(50, UnitOfMeasure.CM), quantity: 1 },
+        ],
+      },
+      { items: [{ item: cube(0.5, UnitOfMeasure.M), quantity: 1 }] },
+      // Deleted items still count, but have no known volume
+      { items: [{ item: null, quantity: 3 }] },
+      {},
+    ]);
+
+    expect(totals.stops).toBe(4);
+    expect(totals.items).toBe(7);
+    expect(totals.volume).toBeCloseTo(0.5);
+  });
+
+  it("treats zero or missing limits as unlimited", () => {
+    const totals = { stops: 40, items: 200, volume: 12 };
+
+    expect(getCapacityUsage({}, totals)).toEqual([]);
+    expect(
+      getCapacityUsage(
+        { maxStopsPerDay: 0, maxItemsPerDay: null, maxVolumePerDay: 0 },
+        totals
+      )
+    ).toEqual([]);
+    expect(
+      getCapacityIssues({ maxStopsPerDay: 0 }, totals, new Date(2025, 5, 11))
+    ).toEqual([]);
+  });
+
+  it("describes each limit the load goes over", () => {
+    const driver = {
+      maxStopsPerDay: 10,
+      maxItemsPerDay: 20,
+      maxVolumePerDay: 1,
+    };
+
+    expect(
+      getCapacityUsage(driver, { stops: 5, items: 25, volume: 1.5 }).map(
+        (usage) => usage.metric
+      )
+    ).toEqual([
+      CapacityMetric.STOPS,
+      CapacityMetric.ITEMS,
+      CapacityMetric.VOLUME,
+    ]);
+    expect(
+      getCapacityIssues(
+        driver,
+        { stops: 5, items: 25, volume: 1.5 },
+        new Date(2025, 5, 11)
+      )
+    ).toEqual(["Items: 25 of 20", "Volume (m³): 1.50 of 1.00"]);
+  });
+
+  it("flags loads on days the driver does not work", () => {
+    const saturday = new Date(2025, 5, 14);
+
+    expect(isWorkingDay(weekdays, saturday)).toBe(false);
+    expect(isWorkingDay(weekdays, new Date(2025, 5, 11))).toBe(true);
+    expect(isWorkingDay({ workingDays: null }, saturday)).toBe(true);
+    expect(
+      getCapacityIssues(
+        { ...weekdays, maxStopsPerDay: 1 },
+        { stops: 2, items: 0, volume: 0 },
+        saturday
+      )
+    ).toEqual(["Not a working day", "Stops: 2 of 1"]);
+    // An empty day is never a problem
+    expect(
+      getCapacityIssues(weekdays, { stops: 0, items: 0, volume: 0 }, saturday)
+    ).toEqual([]);
+  });
+});
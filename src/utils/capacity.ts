@@ -0,0 +1,155 @@
+import { getDay } from "date-fns";
+import { UnitOfMeasure } from "../types/item";
+
+// Capacity fields stored on the driver, unset limits are unlimited
+export interface DriverCapacity {
+  maxStopsPerDay?: number | null;
+  maxItemsPerDay?: number | null;
+  // Cubic metres
+  maxVolumePerDay?: number | null;
+  // Day numbers as returned by date-fns getDay (0 = Sunday), unset means
+  // every day
+  workingDays?: number[] | null;
+  // Refuse assignments over capacity instead of only warning
+  blockOverCapacity?: boolean;
+}
+
+export interface LoadItem {
+  item?: {
+    length: number;
+    width: number;
+    depth: number;
+    unitOfMeasure: UnitOfMeasure | string;
+  } | null;
+  quantity: number;
+}
+
+export interface LoadOrder {
+  items?: LoadItem[];
+}
+
+export interface DayLoadTotals {
+  stops: number;
+  items: number;
+  volume: number;
+}
+
+export enum CapacityMetric {
+  STOPS = "stops",
+  ITEMS = "items",
+  VOLUME = "volume",
+}
+
+export interface CapacityUsage {
+  metric: CapacityMetric;
+  used: number;
+  limit: number;
+}
+
+export const capacityMetricLabels: Record<CapacityMetric, string> = {
+  [CapacityMetric.STOPS]: "Stops",
+  [CapacityMetric.ITEMS]: "Items",
+  [CapacityMetric.VOLUME]: "Volume (m³)",
+};
+
+export const WEEKDAYS = [
+  { value: 1, label: "Mon" },
+  { value: 2, label: "Tue" },
+  { value: 3, label: "Wed" },
+  { value: 4, label: "Thu" },
+  { value: 5, label: "Fri" },
+  { value: 6, label: "Sat" },
+  { value: 0, label: "Sun" },
+];
+
+const metresPerUnit: Record<string, number> = {
+  [UnitOfMeasure.MM]: 0.001,
+  [UnitOfMeasure.CM]: 0.01,
+  [UnitOfMeasure.M]: 1,
+};
+
+export const getItemVolume = (item: NonNullable<LoadItem["item"]>): number => {
+  const factor = metresPerUnit[item.unitOfMeasure] ?? 1;
+  return item.length * item.width * item.depth * factor ** 3;
+};
+
+export const getLoadTotals = (orders: LoadOrder[]): DayLoadTotals =>
+  orders.reduce<DayLoadTotals>(
+    (totals, order) => {
+      (order.items || []).forEach(({ item, quantity }) => {
+        totals.items += quantity;
+        if (item) totals.volume += getItemVolume(item) * quantity;
+      });
+      totals.stops += 1;
+      return totals;
+    },
+    { stops: 0, items: 0, volume: 0 }
+  );
+
+export const isWorkingDay = (driver: DriverCapacity, date: Date): boolean =>
+  !driver.workingDays || driver.workingDays.includes(getDay(date));
+
+export const getCapacityUsage = (
+  driver: DriverCapacity,
+  totals: DayLoadTotals
+): CapacityUsage[] => {
+  const usage: CapacityUsage[] = [];
+  if (driver.maxStopsPerDay) {
+    usage.push({
+      metric: CapacityMetric.STOPS,
+      used: totals.stops,
+      limit: driver.maxStopsPerDay,
+    });
+  }
+  if (driver.maxItemsPerDay) {
+    usage.push({
+      metric: CapacityMetric.ITEMS,
+      used: totals.items,
+      limit: driver.maxItemsPerDay,
+    });
+  }
+  if (driver.maxVolumePerDay) {
+    usage.push({
+      metric: CapacityMetric.VOLUME,
+      used: totals.volume,
+      limit: driver.maxVolumePerDay,
+    });
+  }
+  return usage;
+};
+
+export const formatUsage = (metric: CapacityMetric, value: number) =>
+  metric === CapacityMetric.VOLUME ? value.toFixed(2) : String(value);
+
+/**
+ * Describes why the load does not fit the driver on the given day. An empty
+ * list means the assignment is within capacity.
+ */
+export const getCapacityIssues = (
+  driver: DriverCapacity,
+  totals: DayLoadTotals,
+  date: Date
+): string[] => {
+  const issues = getCapacityUsage(driver, totals)
+    .filter((usage) => usage.used > usage.limit)
+    .map(
+      (usage) =>
+        `${capacityMetricLabels[usage.metric]}: ${formatUsage(
+          usage.metric,
+          usage.used
+        )} of ${formatUsage(usage.metric, usage.limit)}`
+    );
+  if (totals.stops > 0 && !isWorkingDay(driver, date)) {
+    issues.unshift("Not a working day");
+  }
+  return issues;
+};
+
+export const addLoadTotals = (
+  a: DayLoadTotals,
+  b: DayLoadTotals
+): DayLoadTotals => ({
+  stops: a.stops + b.stops,
+  items: a.items + b.items,
+  volume: a.volume + b.volume,
+});
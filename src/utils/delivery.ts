@@ -0,0 +1,49 @@
+import { DeliveredItem, DeliveryStatus } from "../types/delivery";
+
+export const deliveryStatusColors = {
+  [DeliveryStatus.DELIVERED]: "success",
+  [DeliveryStatus.FAILED]: "error",
+  [DeliveryStatus.SKIPPED]: "default",
+  [DeliveryStatus.RESCHEDULED]: "info",
+} as const;
+
+export const formatDeliveryStatus = (status: string) =>
+  status.replace("_", " ").toUpperCase();
+
+export const formatDeliveredItems = (items: DeliveredItem[]) =>
+  items
+    .filter(({ quantity }) => quantity > 0)
+    .map(
+      ({ item, quantity }) =>
+        `${quantity}× ${item.filterType} (${item.length}×${item.width}×${item.depth} ${item.unitOfMeasure})`
+    )
+    .join(", ");
+
+// Photos are stored inline with the delivery, so shrink phone camera images
+// before they are sent
+const MAX_PHOTO_SIZE = 1280;
+
+export const readImageAsDataUrl = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onerror = () => reject(reader.error);
+    reader.onload = () => {
+      const image = new Image();
+      image.onerror = () => reject(new Error("The file is not an image"));
+      image.onload = () => {
+        const scale = Math.min(
+          1,
+          MAX_PHOTO_SIZE / Math.max(image.width, image.height)
+        );
+        const canvas = document.createElement("canvas");
+        canvas.width = Math.round(image.width * scale);
+        canvas.height = Math.round(image.height * scale);
+        canvas
+          .getContext("2d")
+          ?.drawImage(image, 0, 0, canvas.width, canvas.height);
+        resolve(canvas.toDataURL("image/jpeg", 0.8));
+      };
+      image.src = reader.result as string;
+    };
+    reader.readAsDataURL(file);
+  });
@@ -0,0 +1,31 @@
+import {
+  compareDeliverySequence,
+  hasCustomerLocation,
+} from "./deliverySequence";
+
+describe("delivery sequence", () => {
+  it("puts sequenced stops first and the rest by order number", () => {
+    const orders = [
+      { orderNumber: "1003" },
+      { orderNumber: "1001", deliverySequence: 2 },
+      { orderNumber: "1002" },
+      { orderNumber: "1004", deliverySequence: 1 },
+    ];
+
+    expect(
+      [...orders]
+        .sort(compareDeliverySequence)
+        .map((order) => order.orderNumber)
+    ).toEqual(["1004", "1001", "1002", "1003"]);
+  });
+
+  it("only treats customers with both coordinates as located", () => {
+    expect(
+      hasCustomerLocation({ customer: { latitude: 52.1, longitude: 5.1 } })
+    ).toBe(true);
+    expect(hasCustomerLocation({ customer: { latitude: 52.1 } })).toBe(false);
+    expect(
+      hasCustomerLocation({ customer: { latitude: null, longitude: null } })
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,34 @@
+export interface LocatedOrder {
+  customer: { latitude?: number | null; longitude?: number | null };
+}
+
+/**
+ * Only stops with coordinates are placed on a route and get a delivery
+ * sequence, the others wait in the route's unlocated tray until they are
+ * pinned or placed by hand.
+ */
+export const hasCustomerLocation = (order: LocatedOrder): boolean =>
+  !!order.customer.latitude && !!order.customer.longitude;
+
+export interface SequencedOrder {
+  orderNumber: string;
+  deliverySequence?: number | null;
+}
+
+/**
+ * Stop order shared by the route, the planning board and the driver's app:
+ * stops with a saved sequence first, in that sequence, then the rest by
+ * order number.
+ */
+export const compareDeliverySequence = (
+  a: SequencedOrder,
+  b: SequencedOrder
+): number => {
+  if (a.deliverySequence && b.deliverySequence) {
+    return a.deliverySequence - b.deliverySequence;
+  }
+  if (a.deliverySequence || b.deliverySequence) {
+    return a.deliverySequence ? -1 : 1;
+  }
+  return a.orderNumber.localeCompare(b.orderNumber);
+};
@@ -0,0 +1,89 @@
+import { isAfter, isBefore, startOfDay } from "date-fns";
+import { toLocalDay } from "./recurrence";
+
+export interface OrderFilters {
+  search: string;
+  postalCode: string;
+  city: string;
+  frequency: string;
+  status: string;
+  startFrom: Date | null;
+  startTo: Date | null;
+}
+
+export interface FilterableOrder {
+  orderNumber: string;
+  startDate?: string;
+  frequency?: string;
+  status: string;
+  customer: {
+    name: string;
+    customerNumber: string;
+    street: string;
+    houseNumber: string;
+    postalCode: string;
+    city: string;
+    email?: string;
+    mobileNumber?: string;
+  };
+}
+
+export const emptyOrderFilters: OrderFilters = {
+  search: "",
+  postalCode: "",
+  city: "",
+  frequency: "",
+  status: "",
+  startFrom: null,
+  startTo: null,
+};
+
+export const countActiveFilters = (filters: OrderFilters): number =>
+  Object.values(filters).filter((value) => value !== "" && value !== null)
+    .length;
+
+const matchesSearch = (order: FilterableOrder, search: string) => {
+  const term = search.trim().toLowerCase();
+  if (!term) return true;
+
+  const { customer } = order;
+  return [
+    order.orderNumber,
+    customer.name,
+    customer.customerNumber,
+    `${customer.street} ${customer.houseNumber}`,
+    customer.email,
+    customer.mobileNumber,
+  ].some((field) => field?.toLowerCase().includes(term));
+};
+
+const matchesStartDate = (
+  order: FilterableOrder,
+  from: Date | null,
+  to: Date | null
+) => {
+  if (!from && !to) return true;
+  if (!order.startDate) return false;
+
+  const start = toLocalDay(order.startDate);
+  if (from && isBefore(start, startOfDay(from))) return false;
+  if (to && isAfter(start, startOfDay(to))) return false;
+  return true;
+};
+
+// Postal codes match by prefix so a whole area can be picked, e.g. "101"
+export const filterOrders = <T extends FilterableOrder>(
+  orders: T[],
+  filters: OrderFilters
+): T[] =>
+  orders.filter(
+    (order) =>
+      matchesSearch(order, filters.search) &&
+      order.customer.postalCode.startsWith(filters.postalCode.trim()) &&
+      order.customer.city
+        .toLowerCase()
+        .includes(filters.city.trim().toLowerCase()) &&
+      (!filters.frequency || order.frequency === filters.frequency) &&
+      (!filters.status || order.status === filters.status) &&
+      matchesStartDate(order, filters.startFrom, filters.startTo)
+  );
@@ -0,0 +1,40 @@
+import { OrderStatus } from "../types/order";
+import {
+  OrderAction,
+  canTransition,
+  getAvailableActions,
+  getNextStatus,
+} from "./orderStatus";
+
+describe("order status", () => {
+  it("offers start and cancel for pending orders", () => {
+    expect(getAvailableActions(OrderStatus.PENDING)).toEqual([
+      OrderAction.START,
+      OrderAction.CANCEL,
+    ]);
+  });
+
+  it("offers no actions once an order is completed or cancelled", () => {
+    expect(getAvailableActions(OrderStatus.COMPLETED)).toEqual([]);
+    expect(getAvailableActions(OrderStatus.CANCELLED)).toEqual([]);
+  });
+
+  it("pauses and resumes an order in progress", () => {
+    const paused = getNextStatus(OrderStatus.IN_PROGRESS, OrderAction.PAUSE);
+
+    expect(paused).toBe(OrderStatus.PAUSED);
+    expect(getNextStatus(paused, OrderAction.RESUME)).toBe(
+      OrderStatus.IN_PROGRESS
+    );
+  });
+
+  it("rejects transitions that are not allowed", () => {
+    expect(() =>
+      getNextStatus(OrderStatus.PENDING, OrderAction.COMPLETE)
+    ).toThrow("Cannot complete an order that is PENDING");
+    expect(canTransition(OrderStatus.CANCELLED, OrderStatus.IN_PROGRESS)).toBe(
+      false
+    );
+    expect(canTransition(OrderStatus.PAUSED, OrderStatus.CANCELLED)).toBe(true);
+  });
+});
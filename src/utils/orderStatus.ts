@@ -0,0 +1,94 @@
+import { OrderStatus } from "../types/order";
+
+export enum OrderAction {
+  START = "start",
+  PAUSE = "pause",
+  RESUME = "resume",
+  COMPLETE = "complete",
+  CANCEL = "cancel",
+}
+
+export interface OrderTransition {
+  from: OrderStatus[];
+  to: OrderStatus;
+  label: string;
+  // Pausing and cancelling must be explained for the order history
+  requiresReason: boolean;
+}
+
+export const orderTransitions: Record<OrderAction, OrderTransition> = {
+  [OrderAction.START]: {
+    from: [OrderStatus.PENDING],
+    to: OrderStatus.IN_PROGRESS,
+    label: "Start",
+    requiresReason: false,
+  },
+  [OrderAction.PAUSE]: {
+    from: [OrderStatus.IN_PROGRESS],
+    to: OrderStatus.PAUSED,
+    label: "Pause",
+    requiresReason: true,
+  },
+  [OrderAction.RESUME]: {
+    from: [OrderStatus.PAUSED],
+    to: OrderStatus.IN_PROGRESS,
+    label: "Resume",
+    requiresReason: false,
+  },
+  [OrderAction.COMPLETE]: {
+    from: [OrderStatus.IN_PROGRESS],
+    to: OrderStatus.COMPLETED,
+    label: "Complete",
+    requiresReason: false,
+  },
+  [OrderAction.CANCEL]: {
+    from: [OrderStatus.PENDING, OrderStatus.IN_PROGRESS, OrderStatus.PAUSED],
+    to: OrderStatus.CANCELLED,
+    label: "Cancel",
+    requiresReason: true,
+  },
+};
+
+export const orderStatusColors = {
+  [OrderStatus.PENDING]: "warning",
+  [OrderStatus.IN_PROGRESS]: "info",
+  [OrderStatus.COMPLETED]: "success",
+  [OrderStatus.CANCELLED]: "error",
+  [OrderStatus.PAUSED]: "default",
+} as const;
+
+// Only these orders produce deliveries, the others are kept for reference
+const deliveringStatuses: string[] = [
+  OrderStatus.PENDING,
+  OrderStatus.IN_PROGRESS,
+];
+
+// Orders without a status predate the status field and are delivered
+export const isDeliveringStatus = (status?: string | null): boolean =>
+  !status || deliveringStatuses.includes(status);
+
+export const formatOrderStatus = (status: string) =>
+  status.replace("_", " ").toUpperCase();
+
+export const getAvailableActions = (status: OrderStatus): OrderAction[] =>
+  (Object.keys(orderTransitions) as OrderAction[]).filter((action) =>
+    orderTransitions[action].from.includes(status)
+  );
+
+export const canTransition = (from: OrderStatus, to: OrderStatus): boolean =>
+  Object.values(orderTransitions).some(
+    (transition) => transition.to === to && transition.from.includes(from)
+  );
+
+export const getNextStatus = (
+  status: OrderStatus,
+  action: OrderAction
+): OrderStatus => {
+  const transition = orderTransitions[action];
+  if (!transition.from.includes(status)) {
+    throw new Error(
+      `Cannot ${action} an order that is ${formatOrderStatus(status)}`
+    );
+  }
+  return transition.to;
+};
@@ -0,0 +1,74 @@
+import { UserRole } from "../types/user";
+import {
+  Permission,
+  canAccessPath,
+  getHomePath,
+  hasPermission,
+} from "./permissions";
+
+const destructiveActions = [
+  Permission.DELETE_CUSTOMERS,
+  Permission.DELETE_ORDERS,
+  Permission.DELETE_DRIVERS,
+  Permission.DELETE_ITEMS,
+  Permission.EDIT_PRICES,
+];
+
+describe("permissions", () => {
+  it("lets admins do everything except driving a route", () => {
+    Object.values(Permission)
+      .filter((permission) => permission !== Permission.VIEW_OWN_ROUTE)
+      .forEach((permission) =>
+        expect(hasPermission(UserRole.ADMIN, permission)).toBe(true)
+      );
+    expect(canAccessPath(UserRole.ADMIN, "/users")).toBe(true);
+    expect(canAccessPath(UserRole.ADMIN, "/my-route")).toBe(false);
+    expect(getHomePath(UserRole.ADMIN)).toBe("/");
+  });
+
+  it("lets the back office plan and edit but not delete drivers", () => {
+    const role = UserRole.BACK_OFFICE;
+
+    expect(hasPermission(role, Permission.DELETE_CUSTOMERS)).toBe(true);
+    expect(hasPermission(role, Permission.DELETE_ORDERS)).toBe(true);
+    expect(hasPermission(role, Permission.EDIT_PRICES)).toBe(true);
+    expect(hasPermission(role, Permission.DELETE_DRIVERS)).toBe(false);
+    expect(hasPermission(role, Permission.DELETE_ITEMS)).toBe(false);
+    expect(canAccessPath(role, "/planning")).toBe(true);
+    expect(canAccessPath(role, "/depots")).toBe(false);
+    expect(canAccessPath(role, "/users")).toBe(false);
+    expect(getHomePath(role)).toBe("/");
+  });
+
+  it("keeps the warehouse to orders and items without destructive actions", () => {
+    const role = UserRole.WAREHOUSE;
+
+    destructiveActions.forEach((permission) =>
+      expect(hasPermission(role, permission)).toBe(false)
+    );
+    expect(hasPermission(role, Permission.EDIT_ITEMS)).toBe(true);
+    expect(canAccessPath(role, "/orders")).toBe(true);
+    expect(canAccessPath(role, "/items")).toBe(true);
+    expect(canAccessPath(role, "/customers")).toBe(false);
+    expect(canAccessPath(role, "/assign-driver")).toBe(false);
+    expect(getHomePath(role)).toBe("/");
+  });
+
+  it("limits drivers to their own route", () => {
+    const role = UserRole.FIELD_SERVICE;
+
+    destructiveActions.forEach((permission) =>
+      expect(hasPermission(role, permission)).toBe(false)
+    );
+    expect(canAccessPath(role, "/my-route")).toBe(true);
+    expect(canAccessPath(role, "/")).toBe(false);
+    expect(canAccessPath(role, "/orders")).toBe(false);
+    expect(getHomePath(role)).toBe("/my-route");
+  });
+
+  it("denies everything without a role", () => {
+    expect(hasPermission(null, Permission.VIEW_DASHBOARD)).toBe(false);
+    expect(canAccessPath(undefined, "/")).toBe(false);
+    expect(getHomePath(null)).toBe("/403");
+  });
+});
@@ -0,0 +1,86 @@
+import { UserRole } from "../types/user";
+
+export enum Permission {
+  VIEW_DASHBOARD = "view_dashboard",
+  VIEW_CUSTOMERS = "view_customers",
+  EDIT_CUSTOMERS = "edit_customers",
+  DELETE_CUSTOMERS = "delete_customers",
+  VIEW_ORDERS = "view_orders",
+  EDIT_ORDERS = "edit_orders",
+  DELETE_ORDERS = "delete_orders",
+  EDIT_PRICES = "edit_prices",
+  VIEW_ITEMS = "view_items",
+  EDIT_ITEMS = "edit_items",
+  DELETE_ITEMS = "delete_items",
+  VIEW_DRIVERS = "view_drivers",
+  EDIT_DRIVERS = "edit_drivers",
+  DELETE_DRIVERS = "delete_drivers",
+  PLAN_DELIVERIES = "plan_deliveries",
+  MANAGE_DEPOTS = "manage_depots",
+  VIEW_OWN_ROUTE = "view_own_route",
+  MANAGE_USERS = "manage_users",
+}
+
+export const rolePermissions: Record<UserRole, Permission[]> = {
+  // Admins are not drivers, so they have no route of their own
+  [UserRole.ADMIN]: Object.values(Permission).filter(
+    (permission) => permission !== Permission.VIEW_OWN_ROUTE
+  ),
+  [UserRole.BACK_OFFICE]: [
+    Permission.VIEW_DASHBOARD,
+    Permission.VIEW_CUSTOMERS,
+    Permission.EDIT_CUSTOMERS,
+    Permission.DELETE_CUSTOMERS,
+    Permission.VIEW_ORDERS,
+    Permission.EDIT_ORDERS,
+    Permission.DELETE_ORDERS,
+    Permission.EDIT_PRICES,
+    Permission.VIEW_ITEMS,
+    Permission.VIEW_DRIVERS,
+    Permission.EDIT_DRIVERS,
+    Permission.PLAN_DELIVERIES,
+  ],
+  // The warehouse adjusts order contents while packing but does not set
+  // prices
+  [UserRole.WAREHOUSE]: [
+    Permission.VIEW_DASHBOARD,
+    Permission.VIEW_ORDERS,
+    Permission.EDIT_ORDERS,
+    Permission.VIEW_ITEMS,
+    Permission.EDIT_ITEMS,
+  ],
+  [UserRole.FIELD_SERVICE]: [Permission.VIEW_OWN_ROUTE],
+};
+
+// Permission needed to open each page, detail pages share their list's
+export const routePermissions: Record<string, Permission> = {
+  "/": Permission.VIEW_DASHBOARD,
+  "/customers": Permission.VIEW_CUSTOMERS,
+  "/drivers": Permission.VIEW_DRIVERS,
+  "/items": Permission.VIEW_ITEMS,
+  "/orders": Permission.VIEW_ORDERS,
+  "/assign-driver": Permission.PLAN_DELIVERIES,
+  "/planning": Permission.PLAN_DELIVERIES,
+  "/delivery-routes": Permission.PLAN_DELIVERIES,
+  "/depots": Permission.MANAGE_DEPOTS,
+  "/my-route": Permission.VIEW_OWN_ROUTE,
+  "/users": Permission.MANAGE_USERS,
+};
+
+export const hasPermission = (
+  role: UserRole | undefined | null,
+  permission: Permission
+): boolean => !!role && (rolePermissions[role] || []).includes(permission);
+
+export const canAccessPath = (
+  role: UserRole | undefined | null,
+  path: string
+): boolean => {
+  const permission = routePermissions[path];
+  return !permission || hasPermission(role, permission);
+};
+
+// First page the role may open, where it lands after logging in
+export const getHomePath = (role: UserRole | undefined | null): string =>
+  Object.keys(routePermissions).find((path) => canAccessPath(role, path)) ||
+  "/403";
@@ -0,0 +1,87 @@
+import { eachDayOfInterval } from "date-fns";
+import { toDateKey } from "./recurrence";
+import {
+  ScheduledOrder,
+  VacationOutcome,
+  VacationPolicy,
+  getDeliveriesOn,
+} from "./vacation";
+
+export interface PlannedOrder extends ScheduledOrder {
+  assignedDriver?: { _id: string } | null;
+}
+
+export interface DayLoad {
+  date: Date;
+  total: number;
+  unassigned: number;
+  // Deliveries per driver id
+  byDriver: Record<string, number>;
+}
+
+export enum LoadLevel {
+  LIGHT = "light",
+  BUSY = "busy",
+  FULL = "full",
+}
+
+// Stops per driver and day at which the load is shown as busy / full when
+// the driver has no stop limit
+const BUSY_STOPS = 15;
+const FULL_STOPS = 25;
+
+export const loadLevelColors: Record<
+  LoadLevel,
+  "success" | "warning" | "error"
+> = {
+  [LoadLevel.LIGHT]: "success",
+  [LoadLevel.BUSY]: "warning",
+  [LoadLevel.FULL]: "error",
+};
+
+// Relative to the driver's stop limit when one is set
+export const getLoadLevel = (
+  stops: number,
+  maxStops?: number | null
+): LoadLevel => {
+  if (maxStops) {
+    if (stops > maxStops) return LoadLevel.FULL;
+    if (stops >= maxStops * 0.8) return LoadLevel.BUSY;
+    return LoadLevel.LIGHT;
+  }
+  if (stops >= FULL_STOPS) return LoadLevel.FULL;
+  if (stops >= BUSY_STOPS) return LoadLevel.BUSY;
+  return LoadLevel.LIGHT;
+};
+
+/**
+ * Counts the deliveries of every day in the range (inclusive), keyed by
+ * `toDateKey`. Deliveries skipped for a customer vacation are not counted.
+ */
+export const getDailyLoad = (
+  orders: PlannedOrder[],
+  rangeStart: Date,
+  rangeEnd: Date,
+  policy: VacationPolicy
+): Record<string, DayLoad> => {
+  const loads: Record<string, DayLoad> = {};
+
+  eachDayOfInterval({ start: rangeStart, end: rangeEnd }).forEach((date) => {
+    const load: DayLoad = { date, total: 0, unassigned: 0, byDriver: {} };
+
+    getDeliveriesOn(orders, date, policy).forEach(({ order, vacation }) => {
+      if (vacation === VacationOutcome.SKIPPED) return;
+
+      load.total += 1;
+      const driverId = order.assignedDriver?._id;
+      if (driverId) {
+        load.byDriver[driverId] = (load.byDriver[driverId] || 0) + 1;
+      } else {
+        load.unassigned += 1;
+      }
+    });
+    loads[toDateKey(date)] = load;
+  });
+
+  return loads;
+};
@@ -0,0 +1,111 @@
+import { Frequency } from "../types/order";
+import {
+  getNextOccurrence,
+  getOccurrences,
+  getPauseEnd,
+  occursOn,
+  toDateKey,
+} from "./recurrence";
+
+const keys = (dates: Date[]) => dates.map(toDateKey);
+
+describe("recurrence", () => {
+  it("returns only the start date for one-off orders", () => {
+    const schedule = { startDate: "2025-06-24T00:00:00.000Z" };
+
+    expect(
+      keys(
+        getOccurrences(schedule, new Date(2025, 5, 1), new Date(2025, 6, 31))
+      )
+    ).toEqual(["2025-06-24"]);
+  });
+
+  it("repeats weekly orders every seven days", () => {
+    const schedule = {
+      startDate: "2025-06-02T00:00:00.000Z",
+      frequency: Frequency.WEEKLY,
+    };
+
+    expect(
+      keys(
+        getOccurrences(schedule, new Date(2025, 5, 10), new Date(2025, 5, 30))
+      )
+    ).toEqual(["2025-06-16", "2025-06-23", "2025-06-30"]);
+  });
+
+  it("skips weekends for weekday orders", () => {
+    const schedule = {
+      startDate: "2025-06-06T00:00:00.000Z",
+      frequency: Frequency.WEEKDAYS,
+    };
+
+    expect(
+      keys(
+        getOccurrences(schedule, new Date(2025, 5, 6), new Date(2025, 5, 10))
+      )
+    ).toEqual(["2025-06-06", "2025-06-09", "2025-06-10"]);
+  });
+
+  it("keeps the day of month for monthly orders", () => {
+    const schedule = {
+      startDate: "2025-01-31T00:00:00.000Z",
+      frequency: Frequency.MONTHLY,
+    };
+
+    expect(
+      keys(
+        getOccurrences(schedule, new Date(2025, 0, 1), new Date(2025, 3, 30))
+      )
+    ).toEqual(["2025-01-31", "2025-02-28", "2025-03-31", "2025-04-30"]);
+  });
+
+  it("stops at the end date", () => {
+    const schedule = {
+      startDate: "2025-01-15T00:00:00.000Z",
+      endDate: "2025-07-15T00:00:00.000Z",
+      frequency: Frequency.QUARTERLY,
+    };
+
+    expect(
+      keys(
+        getOccurrences(schedule, new Date(2025, 0, 1), new Date(2025, 11, 31))
+      )
+    ).toEqual(["2025-01-15", "2025-04-15", "2025-07-15"]);
+    expect(getNextOccurrence(schedule, new Date(2025, 6, 16))).toBeNull();
+  });
+
+  it("matches single days", () => {
+    const schedule = {
+      startDate: "2025-06-02T00:00:00.000Z",
+      frequency: Frequency.BIWEEKLY,
+    };
+
+    expect(occursOn(schedule, new Date(2025, 5, 16))).toBe(true);
+    expect(occursOn(schedule, new Date(2025, 5, 9))).toBe(false);
+    expect(occursOn(schedule, new Date(2025, 4, 19))).toBe(false);
+  });
+
+  it("leaves out occurrences inside a pause window", () => {
+    const schedule = {
+      startDate: "2025-06-02T00:00:00.000Z",
+      frequency: Frequency.WEEKLY,
+      pauseWindows: [
+        {
+          from: "2025-06-09T00:00:00.000Z",
+          to: "2025-06-20T00:00:00.000Z",
+        },
+      ],
+    };
+
+    expect(
+      keys(
+        getOccurrences(schedule, new Date(2025, 5, 1), new Date(2025, 5, 30))
+      )
+    ).toEqual(["2025-06-02", "2025-06-23", "2025-06-30"]);
+    expect(occursOn(schedule, new Date(2025, 5, 16))).toBe(false);
+    expect(keys([getPauseEnd(schedule, new Date(2025, 5, 12))!])).toEqual([
+      "2025-06-20",
+    ]);
+    expect(getPauseEnd(schedule, new Date(2025, 5, 21))).toBeNull();
+  });
+});
@@ -0,0 +1,152 @@
+import {
+  addDays,
+  addMonths,
+  differenceInCalendarDays,
+  differenceInCalendarMonths,
+  format,
+  isWeekend,
+  parseISO,
+  startOfDay,
+} from "date-fns";
+import { Frequency, PauseWindow } from "../types/order";
+
+export interface RecurringSchedule {
+  startDate?: string;
+  endDate?: string | null;
+  frequency?: Frequency | string;
+  pauseWindows?: Pick<PauseWindow, "from" | "to">[] | null;
+}
+
+const dayIntervals: Partial<Record<string, number>> = {
+  [Frequency.DAILY]: 1,
+  [Frequency.WEEKLY]: 7,
+  [Frequency.BIWEEKLY]: 14,
+};
+
+const monthIntervals: Partial<Record<string, number>> = {
+  [Frequency.MONTHLY]: 1,
+  [Frequency.QUARTERLY]: 3,
+  [Frequency.SEMI_ANNUALLY]: 6,
+  [Frequency.ANNUALLY]: 12,
+};
+
+// Dates come from the backend as UTC midnight ("2025-06-24T00:00:00.000Z"),
+// so use the calendar part to avoid shifting the day in negative timezones
+export const toLocalDay = (value: string | Date): Date => {
+  if (value instanceof Date) {
+    return startOfDay(value);
+  }
+  const match = /^\d{4}-\d{2}-\d{2}/.exec(value);
+  return match ? parseISO(match[0]) : startOfDay(new Date(value));
+};
+
+export const toDateKey = (date: Date): string => format(date, "yyyy-MM-dd");
+
+const skipWeekend = (date: Date): Date => {
+  let day = date;
+  while (isWeekend(day)) {
+    day = addDays(day, 1);
+  }
+  return day;
+};
+
+// First occurrence on or after the given day, ignoring the end date
+const nextCandidate = (
+  start: Date,
+  frequency: string | undefined,
+  from: Date
+): Date | null => {
+  const day = from < start ? start : from;
+
+  if (frequency === Frequency.WEEKDAYS) {
+    return skipWeekend(day);
+  }
+
+  const dayStep = frequency ? dayIntervals[frequency] : undefined;
+  if (dayStep) {
+    const elapsed = differenceInCalendarDays(day, start);
+    return addDays(start, Math.ceil(elapsed / dayStep) * dayStep);
+  }
+
+  const monthStep = frequency ? monthIntervals[frequency] : undefined;
+  if (monthStep) {
+    // Always step from the start date so that e.g. the 31st is kept in
+    // months that have one instead of drifting to the 28th
+    let step = Math.floor(differenceInCalendarMonths(day, start) / monthStep);
+    let candidate = addMonths(start, step * monthStep);
+    while (candidate < day) {
+      step += 1;
+      candidate = addMonths(start, step * monthStep);
+    }
+    return candidate;
+  }
+
+  // One-off order
+  return from <= start ? start : null;
+};
+
+/**
+ * Returns the last day of the pause window covering the given day, or null
+ * when deliveries are not paused on it.
+ */
+export const getPauseEnd = (
+  schedule: RecurringSchedule,
+  date: Date
+): Date | null => {
+  const day = startOfDay(date);
+  const pause = schedule.pauseWindows?.find(
+    (window) => day >= toLocalDay(window.from) && day <= toLocalDay(window.to)
+  );
+  return pause ? toLocalDay(pause.to) : null;
+};
+
+/**
+ * Returns the first delivery date of the schedule on or after `from`,
+ * or null when the schedule has ended. Occurrences inside a pause window
+ * are left out.
+ */
+export const getNextOccurrence = (
+  schedule: RecurringSchedule,
+  from: Date
+): Date | null => {
+  if (!schedule.startDate) return null;
+
+  const start = toLocalDay(schedule.startDate);
+  let candidate = nextCandidate(start, schedule.frequency, startOfDay(from));
+  let pauseEnd = candidate && getPauseEnd(schedule, candidate);
+  while (candidate && pauseEnd) {
+    candidate = nextCandidate(start, schedule.frequency, addDays(pauseEnd, 1));
+    pauseEnd = candidate && getPauseEnd(schedule, candidate);
+  }
+  if (!candidate) return null;
+
+  if (schedule.endDate && candidate > toLocalDay(schedule.endDate)) {
+    return null;
+  }
+  return candidate;
+};
+
+/**
+ * Expands the schedule into every delivery date between `rangeStart` and
+ * `rangeEnd` (both inclusive).
+ */
+export const getOccurrences = (
+  schedule: RecurringSchedule,
+  rangeStart: Date,
+  rangeEnd: Date
+): Date[] => {
+  const end = startOfDay(rangeEnd);
+  const occurrences: Date[] = [];
+
+  let next = getNextOccurrence(schedule, rangeStart);
+  while (next && next <= end) {
+    occurrences.push(next);
+    next = getNextOccurrence(schedule, addDays(next, 1));
+  }
+  return occurrences;
+};
+
+export const occursOn = (schedule: RecurringSchedule, date: Date): boolean => {
+  const next = getNextOccurrence(schedule, date);
+  return !!next && differenceInCalendarDays(next, date) === 0;
+};
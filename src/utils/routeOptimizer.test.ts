@@ -0,0 +1,76 @@
+import { LatLng, routeDistance } from "./geo";
+import { optimizeRoute } from "./routeOptimizer";
+
+const base = { lat: 0, lng: 0 };
+const identity = (stop: LatLng) => stop;
+
+describe("route optimizer", () => {
+  it("keeps routes with fewer than three stops as they are", () => {
+    const stops = [
+      { lat: 0, lng: 0.2 },
+      { lat: 0, lng: 0.1 },
+    ];
+
+    expect(optimizeRoute(base, stops, identity)).toEqual(stops);
+  });
+
+  it("visits stops along a road in order of distance", () => {
+    const stops = [
+      { lat: 0, lng: 0.3 },
+      { lat: 0, lng: 0.1 },
+      { lat: 0, lng: 0.2 },
+    ];
+
+    expect(optimizeRoute(base, stops, identity)).toEqual([
+      { lat: 0, lng: 0.1 },
+      { lat: 0, lng: 0.2 },
+      { lat: 0, lng: 0.3 },
+    ]);
+  });
+
+  it("improves on the greedy nearest-neighbour tour", () => {
+    // The order nearest-neighbour picks, which crosses itself
+    const greedy = [
+      { lat: 0, lng: -0.04 },
+      { lat: 0.08, lng: 0 },
+      { lat: 0.08, lng: -0.09 },
+      { lat: 0, lng: 0.08 },
+    ];
+    const route = optimizeRoute(base, greedy, identity);
+
+    expect(routeDistance(base, route)).toBeLessThan(
+      routeDistance(base, greedy) - 5
+    );
+  });
+
+  it("never makes a route longer and keeps every stop", () => {
+    const stops = [
+      { lat: 0.05, lng: 0.02 },
+      { lat: -0.03, lng: 0.04 },
+      { lat: 0.02, lng: -0.05 },
+      { lat: 0.06, lng: 0.06 },
+      { lat: -0.04, lng: -0.02 },
+      { lat: 0.01, lng: 0.07 },
+      { lat: -0.06, lng: 0.01 },
+    ];
+    const route = optimizeRoute(base, stops, identity);
+
+    expect(route).toHaveLength(stops.length);
+    expect(new Set(route)).toEqual(new Set(stops));
+    expect(routeDistance(base, route)).toBeLessThanOrEqual(
+      routeDistance(base, stops)
+    );
+  });
+
+  it("maps the stops through the position getter", () => {
+    const stops = [
+      { id: "c", position: { lat: 0, lng: 0.3 } },
+      { id: "a", position: { lat: 0, lng: 0.1 } },
+      { id: "b", position: { lat: 0, lng: 0.2 } },
+    ];
+
+    expect(
+      optimizeRoute(base, stops, (stop) => stop.position).map((stop) => stop.id)
+    ).toEqual(["a", "b", "c"]);
+  });
+});
@@ -0,0 +1,81 @@
+import { LatLng, haversineDistance } from "./geo";
+
+// Improvements smaller than this are rounding noise and would make 2-opt
+// swap back and forth forever
+const EPSILON = 1e-9;
+const MAX_PASSES = 100;
+
+const buildDistanceMatrix = (points: LatLng[]): number[][] =>
+  points.map((from) => points.map((to) => haversineDistance(from, to)));
+
+// Greedy tour starting and ending at the base (index 0)
+const nearestNeighbourTour = (distances: number[][]): number[] => {
+  const unvisited = new Set(distances.map((_, index) => index).slice(1));
+  const tour = [0];
+
+  while (unvisited.size > 0) {
+    const current = tour[tour.length - 1];
+    let nearest = -1;
+    unvisited.forEach((candidate) => {
+      if (
+        nearest === -1 ||
+        distances[current][candidate] < distances[current][nearest]
+      ) {
+        nearest = candidate;
+      }
+    });
+    tour.push(nearest);
+    unvisited.delete(nearest);
+  }
+
+  tour.push(0);
+  return tour;
+};
+
+// Reverses tour segments while that shortens the route, the base at both
+// ends stays fixed
+const twoOpt = (tour: number[], distances: number[][]): number[] => {
+  const result = [...tour];
+
+  for (let pass = 0; pass < MAX_PASSES; pass++) {
+    let improved = false;
+
+    for (let i = 1; i < result.length - 2; i++) {
+      for (let k = i + 1; k < result.length - 1; k++) {
+        const a = result[i - 1];
+        const b = result[i];
+        const c = result[k];
+        const d = result[k + 1];
+        const delta =
+          distances[a][c] + distances[b][d] - distances[a][b] - distances[c][d];
+
+        if (delta < -EPSILON) {
+          const reversed = result.slice(i, k + 1).reverse();
+          result.splice(i, reversed.length, ...reversed);
+          improved = true;
+        }
+      }
+    }
+
+    if (!improved) break;
+  }
+
+  return result;
+};
+
+/**
+ * Orders the stops into a short round trip from the base using
+ * nearest-neighbour construction followed by 2-opt improvement.
+ */
+export const optimizeRoute = <T>(
+  base: LatLng,
+  stops: T[],
+  getPosition: (stop: T) => LatLng
+): T[] => {
+  if (stops.length < 3) return [...stops];
+
+  const distances = buildDistanceMatrix([base, ...stops.map(getPosition)]);
+  const tour = twoOpt(nearestNeighbourTour(distances), distances);
+
+  return tour.slice(1, -1).map((index) => stops[index - 1]);
+};
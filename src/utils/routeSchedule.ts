@@ -0,0 +1,74 @@
+import { addMinutes, setHours, setMinutes, startOfDay } from "date-fns";
+import { LatLng, haversineDistance } from "./geo";
+
+export interface RouteSettings {
+  averageSpeedKmh: number;
+  serviceMinutes: number;
+  // "HH:mm"
+  shiftStart: string;
+}
+
+export const DEFAULT_ROUTE_SETTINGS: RouteSettings = {
+  averageSpeedKmh: 30,
+  serviceMinutes: 10,
+  shiftStart: "08:00",
+};
+
+export interface RouteLeg {
+  distance: number;
+  travelMinutes: number;
+  arrival: Date;
+  // Equal to the arrival for the final leg back to the base
+  departure: Date;
+}
+
+export interface RouteSchedule {
+  legs: RouteLeg[];
+  totalDistance: number;
+  totalTravelMinutes: number;
+  start: Date;
+  end: Date;
+}
+
+const parseShiftStart = (date: Date, shiftStart: string): Date => {
+  const [hours, minutes] = shiftStart.split(":").map(Number);
+  return setMinutes(setHours(startOfDay(date), hours || 0), minutes || 0);
+};
+
+/**
+ * Estimates arrival times along a round trip from the base using
+ * straight-line distances. The last leg is the return to the base.
+ */
+export const buildRouteSchedule = (
+  base: LatLng,
+  stops: LatLng[],
+  date: Date,
+  settings: RouteSettings
+): RouteSchedule => {
+  const start = parseShiftStart(date, settings.shiftStart);
+  const points = stops.length > 0 ? [base, ...stops, base] : [];
+  const speed = settings.averageSpeedKmh > 0 ? settings.averageSpeedKmh : 1;
+
+  const legs: RouteLeg[] = [];
+  let clock = start;
+  for (let i = 0; i < points.length - 1; i++) {
+    const distance = haversineDistance(points[i], points[i + 1]);
+    const travelMinutes = (distance / speed) * 60;
+    const arrival = addMinutes(clock, Math.round(travelMinutes));
+    const isReturn = i === points.length - 2;
+    const departure = isReturn
+      ? arrival
+      : addMinutes(arrival, settings.serviceMinutes);
+
+    legs.push({ distance, travelMinutes, arrival, departure });
+    clock = departure;
+  }
+
+  return {
+    legs,
+    totalDistance: legs.reduce((sum, leg) => sum + leg.distance, 0),
+    totalTravelMinutes: legs.reduce((sum, leg) => sum + leg.travelMinutes, 0),
+    start,
+    end: clock,
+  };
+};
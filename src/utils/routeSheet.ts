@@ -0,0 +1,278 @@
+import { format } from "date-fns";
+import { LatLng, formatDistance } from "./geo";
+import { RouteSchedule } from "./routeSchedule";
+import { PaymentMethod } from "../types/order";
+
+export interface RouteSheetStop {
+  orderNumber: string;
+  customerNumber: string;
+  customerName: string;
+  address: string;
+  phone?: string;
+  // Null for stops that have no coordinates yet
+  position: LatLng | null;
+  arrival?: Date;
+  items: { name: string; quantity: number }[];
+  paymentMethod: string;
+  driverNote?: string;
+  totalGrossAmount?: number;
+}
+
+export interface RouteSheet {
+  driverName: string;
+  driverNumber: string;
+  date: Date;
+  baseName: string;
+  base: LatLng;
+  stops: RouteSheetStop[];
+  schedule: RouteSchedule;
+}
+
+const MAP_WIDTH = 700;
+const MAP_HEIGHT = 360;
+const MAP_PADDING = 24;
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const formatLabel = (value: string) => value.replace("_", " ").toUpperCase();
+
+/**
+ * Draws the route as an inline SVG so the sheet prints without map tiles or
+ * an API key. Uses a simple equirectangular projection, good enough for the
+ * extent of a single delivery day.
+ */
+const renderOverviewMap = (base: LatLng, stops: RouteSheetStop[]) => {
+  const located = stops
+    .map((stop, index) => ({ number: index + 1, position: stop.position }))
+    .filter((stop): stop is { number: number; position: LatLng } =>
+      Boolean(stop.position)
+    );
+  const points = [base, ...located.map((stop) => stop.position)];
+
+  const lngScale = Math.cos((base.lat * Math.PI) / 180);
+  const xs = points.map((point) => point.lng * lngScale);
+  const ys = points.map((point) => point.lat);
+  const minX = Math.min(...xs);
+  const minY = Math.min(...ys);
+  const spanX = Math.max(...xs) - minX || 0.01;
+  const spanY = Math.max(...ys) - minY || 0.01;
+  const scale = Math.min(
+    (MAP_WIDTH - 2 * MAP_PADDING) / spanX,
+    (MAP_HEIGHT - 2 * MAP_PADDING) / spanY
+  );
+
+  const project = (point: LatLng) => ({
+    x: MAP_PADDING + (point.lng * lngScale - minX) * scale,
+    y: MAP_HEIGHT - MAP_PADDING - (point.lat - minY) * scale,
+  });
+
+  const route = [base, ...located.map((stop) => stop.position), base]
+    .map(project)
+    .map(({ x, y }) => `${x.toFixed(1)},${y.toFixed(1)}`)
+    .join(" ");
+  const depot = project(base);
+
+  return `
+    <svg class="map" viewBox="0 0 ${MAP_WIDTH} ${MAP_HEIGHT}" xmlns="http://www.w3.org/2000/svg">
+      <rect width="100%" height="100%" fill="#f7f7f7" />
+      <polyline points="${route}" fill="none" stroke="#555" stroke-width="2" stroke-dasharray="6 4" />
+      <rect x="${depot.x - 9}" y="${
+    depot.y - 9
+  }" width="18" height="18" fill="#4285F4" />
+      <text x="${depot.x}" y="${
+    depot.y + 4
+  }" text-anchor="middle" font-size="11" font-weight="bold" fill="#fff">D</text>
+      ${located
+        .map((stop) => {
+          const { x, y } = project(stop.position);
+          return `
+      <circle cx="${x}" cy="${y}" r="10" fill="#FF6B6B" stroke="#fff" stroke-width="2" />
+      <text x="${x}" y="${
+            y + 4
+          }" text-anchor="middle" font-size="11" font-weight="bold" fill="#fff">${
+            stop.number
+          }</text>`;
+        })
+        .join("")}
+    </svg>
+  `;
+};
+
+const renderStop = (stop: RouteSheetStop, index: number) => `
+  <div class="stop">
+    <div class="stop-header">
+      <span class="stop-number">${index + 1}</span>
+      <strong>${escapeHtml(stop.customerName)}</strong>
+      <span class="muted">Customer #${escapeHtml(
+        stop.customerNumber
+      )} · Order #${escapeHtml(stop.orderNumber)}</span>
+      <span class="arrival">${
+        stop.arrival ? `ETA ${format(stop.arrival, "HH:mm")}` : "No location"
+      }</span>
+    </div>
+    <div class="info-row"><span class="info-label">Address:</span>${escapeHtml(
+      stop.address
+    )}</div>
+    <div class="info-row"><span class="info-label">Phone:</span>${escapeHtml(
+      stop.phone || "-"
+    )}</div>
+    <div class="info-row"><span class="info-label">Payment:</span>${formatLabel(
+      stop.paymentMethod
+    )}${
+  stop.totalGrossAmount !== undefined
+    ? ` (€${stop.totalGrossAmount.toFixed(2)})`
+    : ""
+}</div>
+    ${
+      stop.driverNote
+        ? `<div class="info-row note"><span class="info-label">Driver Note:</span>${escapeHtml(
+            stop.driverNote
+          )}</div>`
+        : ""
+    }
+    <table class="table">
+      <thead><tr><th>Item</th><th>Quantity</th><th>Delivered</th></tr></thead>
+      <tbody>
+        ${stop.items
+          .map(
+            (item) => `
+          <tr><td>${escapeHtml(item.name)}</td><td>${
+              item.quantity
+            }</td><td></td></tr>`
+          )
+          .join("")}
+      </tbody>
+    </table>
+    <div class="signature">
+      <div>Notes</div>
+      <div>Signature</div>
+    </div>
+  </div>
+`;
+
+export const buildRouteSheetHtml = (sheet: RouteSheet): string => {
+  const { stops, schedule } = sheet;
+
+  // Loading list for the whole day
+  const itemTotals = new Map<string, number>();
+  stops.forEach((stop) =>
+    stop.items.forEach((item) =>
+      itemTotals.set(
+        item.name,
+        (itemTotals.get(item.name) || 0) + item.quantity
+      )
+    )
+  );
+  const totalQuantity = Array.from(itemTotals.values()).reduce(
+    (sum, quantity) => sum + quantity,
+    0
+  );
+  const cashToCollect = stops
+    .filter((stop) => stop.paymentMethod === PaymentMethod.CASH)
+    .reduce((sum, stop) => sum + (stop.totalGrossAmount || 0), 0);
+  const dateLabel = format(sheet.date, "EEEE, MMMM d, yyyy");
+
+  return `
+    <!DOCTYPE html>
+    <html>
+      <head>
+        <title>Route Sheet - ${escapeHtml(sheet.driverName)} - ${format(
+    sheet.date,
+    "yyyy-MM-dd"
+  )}</title>
+        <style>
+          body { font-family: Arial, sans-serif; margin: 20px; font-size: 13px; }
+          .header { text-align: center; border-bottom: 2px solid #333; padding-bottom: 10px; margin-bottom: 20px; }
+          .section { margin-bottom: 20px; }
+          .section h3 { color: #333; border-bottom: 1px solid #ccc; padding-bottom: 5px; }
+          .info-row { margin: 4px 0; }
+          .info-label { font-weight: bold; display: inline-block; width: 110px; }
+          .muted { color: #666; margin-left: 8px; }
+          .table { width: 100%; border-collapse: collapse; margin: 8px 0; }
+          .table th, .table td { border: 1px solid #ddd; padding: 6px; text-align: left; }
+          .table th { background-color: #f2f2f2; }
+          .map { width: 100%; border: 1px solid #ccc; }
+          .stop { border: 1px solid #999; padding: 10px; margin-bottom: 14px; page-break-inside: avoid; }
+          .stop-header { display: flex; align-items: center; gap: 6px; margin-bottom: 6px; font-size: 15px; }
+          .stop-number { display: inline-block; width: 24px; height: 24px; line-height: 24px; border-radius: 50%; background: #FF6B6B; color: #fff; text-align: center; font-weight: bold; }
+          .arrival { margin-left: auto; font-weight: bold; }
+          .note { background: #fff8e1; padding: 4px; }
+          .signature { display: grid; grid-template-columns: 2fr 1fr; gap: 10px; margin-top: 8px; }
+          .signature div { border: 1px solid #999; height: 60px; padding: 4px; color: #666; font-size: 11px; }
+          .footer { margin-top: 30px; text-align: center; font-size: 12px; color: #666; }
+          @media print {
+            body { margin: 0; }
+          }
+        </style>
+      </head>
+      <body>
+        <div class="header">
+          <h1>ROUTE SHEET</h1>
+          <h2>${escapeHtml(sheet.driverName)} (Driver #${escapeHtml(
+    sheet.driverNumber
+  )})</h2>
+          <p>${dateLabel} · Starting from ${escapeHtml(sheet.baseName)}</p>
+        </div>
+
+        <div class="section">
+          <h3>Overview</h3>
+          ${renderOverviewMap(sheet.base, stops)}
+          <div class="info-row"><span class="info-label">Stops:</span>${
+            stops.length
+          }</div>
+          <div class="info-row"><span class="info-label">Distance:</span>${formatDistance(
+            schedule.totalDistance
+          )} (straight line)</div>
+          <div class="info-row"><span class="info-label">Time:</span>${format(
+            schedule.start,
+            "HH:mm"
+          )} - ${format(schedule.end, "HH:mm")}</div>
+          <div class="info-row"><span class="info-label">Cash to collect:</span>€${cashToCollect.toFixed(
+            2
+          )}</div>
+        </div>
+
+        <div class="section">
+          <h3>Loading List</h3>
+          <table class="table">
+            <thead><tr><th>Item</th><th>Quantity</th></tr></thead>
+            <tbody>
+              ${Array.from(itemTotals.entries())
+                .map(
+                  ([name, quantity]) =>
+                    `<tr><td>${escapeHtml(name)}</td><td>${quantity}</td></tr>`
+                )
+                .join("")}
+              <tr><td><strong>Total</strong></td><td><strong>${totalQuantity}</strong></td></tr>
+            </tbody>
+          </table>
+        </div>
+
+        <div class="section">
+          <h3>Stops</h3>
+          ${stops.map(renderStop).join("")}
+        </div>
+
+        <div class="footer">
+          <p>This route sheet was generated automatically from the order management system.</p>
+        </div>
+      </body>
+    </html>
+  `;
+};
+
+export const printRouteSheet = (sheet: RouteSheet) => {
+  const printWindow = window.open("", "_blank");
+  if (printWindow) {
+    printWindow.document.write(buildRouteSheetHtml(sheet));
+    printWindow.document.close();
+    printWindow.focus();
+    printWindow.print();
+    printWindow.close();
+  }
+};
@@ -0,0 +1,48 @@
+import { UserRole } from "../types/user";
+import { getTokenExpiry, isTokenExpired, parseUser } from "./session";
+
+const user = {
+  id: "1",
+  email: "jane@example.com",
+  firstName: "Jane",
+  lastName: "Doe",
+  role: UserRole.BACK_OFFICE,
+  isActive: true,
+};
+
+const makeToken = (payload: object) =>
+  `header.${btoa(JSON.stringify(payload))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "")}.signature`;
+
+describe("session", () => {
+  it("reads the expiry of a token in milliseconds", () => {
+    expect(getTokenExpiry(makeToken({ id: "1", exp: 1700000000 }))).toBe(
+      1700000000000
+    );
+  });
+
+  it("ignores tokens without a readable expiry", () => {
+    expect(getTokenExpiry(makeToken({ id: "1" }))).toBeNull();
+    expect(getTokenExpiry("not-a-token")).toBeNull();
+    expect(isTokenExpired("not-a-token")).toBe(false);
+  });
+
+  it("treats a token as expired from its expiry on", () => {
+    const token = makeToken({ exp: 1000 });
+    expect(isTokenExpired(token, 999999)).toBe(false);
+    expect(isTokenExpired(token, 1000000)).toBe(true);
+  });
+
+  it("accepts well-formed users and drops unknown fields", () => {
+    expect(parseUser({ ...user, password: "secret" })).toEqual(user);
+  });
+
+  it("rejects users that do not match the schema", () => {
+    expect(parseUser(null)).toBeNull();
+    expect(parseUser({ ...user, role: "superuser" })).toBeNull();
+    expect(parseUser({ ...user, isActive: "yes" })).toBeNull();
+    expect(parseUser({ ...user, id: undefined })).toBeNull();
+  });
+});
@@ -0,0 +1,99 @@
+import { User, UserRole } from "../types/user";
+
+// Keys of the session in localStorage
+export const TOKEN_KEY = "token";
+export const REFRESH_TOKEN_KEY = "refreshToken";
+export const USER_KEY = "user";
+
+/**
+ * Reads the `exp` claim of a JWT as a timestamp in milliseconds. The
+ * signature is not checked, the backend does that.
+ */
+export const getTokenExpiry = (token: string): number | null => {
+  try {
+    const payload = token.split(".")[1];
+    const json = atob(payload.replace(/-/g, "+").replace(/_/g, "/"));
+    const { exp } = JSON.parse(json);
+    return typeof exp === "number" ? exp * 1000 : null;
+  } catch (error) {
+    return null;
+  }
+};
+
+export const isTokenExpired = (token: string, now = Date.now()): boolean => {
+  const expiry = getTokenExpiry(token);
+  return expiry !== null && expiry <= now;
+};
+
+export const clearStoredSession = () => {
+  localStorage.removeItem(TOKEN_KEY);
+  localStorage.removeItem(REFRESH_TOKEN_KEY);
+  localStorage.removeItem(USER_KEY);
+};
+
+export interface StoredSession {
+  token: string;
+  refreshToken: string | null;
+  user: User;
+}
+
+const userRoles: string[] = Object.values(UserRole);
+
+/**
+ * Checks that a value from localStorage or the API has the shape of a User
+ * and returns it with only the known fields, or null when it does not.
+ */
+export const parseUser = (value: unknown): User | null => {
+  if (!value || typeof value !== "object") return null;
+  const { id, email, firstName, lastName, role, isActive } = value as Record<
+    string,
+    unknown
+  >;
+
+  if (
+    typeof id !== "string" ||
+    typeof email !== "string" ||
+    typeof firstName !== "string" ||
+    typeof lastName !== "string" ||
+    typeof role !== "string" ||
+    !userRoles.includes(role) ||
+    typeof isActive !== "boolean"
+  ) {
+    return null;
+  }
+  return { id, email, firstName, lastName, role: role as UserRole, isActive };
+};
+
+/**
+ * Returns the session kept in localStorage, or null when there is none or it
+ * has been tampered with.
+ */
+export const readStoredSession = (): StoredSession | null => {
+  const token = localStorage.getItem(TOKEN_KEY);
+  const storedUser = localStorage.getItem(USER_KEY);
+  if (!token || !storedUser) return null;
+
+  let user: User | null;
+  try {
+    user = parseUser(JSON.parse(storedUser));
+  } catch (error) {
+    user = null;
+  }
+  if (!user) return null;
+
+  return {
+    token,
+    refreshToken: localStorage.getItem(REFRESH_TOKEN_KEY),
+    user,
+  };
+};
+
+export const storeSession = ({ token, refreshToken, user }: StoredSession) => {
+  localStorage.setItem(TOKEN_KEY, token);
+  localStorage.setItem(USER_KEY, JSON.stringify(user));
+  if (refreshToken) {
+    localStorage.setItem(REFRESH_TOKEN_KEY, refreshToken);
+  } else {
+    localStorage.removeItem(REFRESH_TOKEN_KEY);
+  }
+};
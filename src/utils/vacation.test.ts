@@ -0,0 +1,229 @@
+import { CustomerStatus } from "../types/customer";
+import { Frequency, OrderStatus } from "../types/order";
+import { toDateKey } from "./recurrence";
+import {
+  ScheduledDelivery,
+  ScheduledOrder,
+  VacationOutcome,
+  VacationPolicy,
+  getDeliveriesOn,
+  getDriverConflicts,
+  getNextDelivery,
+  isOnVacation,
+} from "./vacation";
+
+const activeCustomer = { status: CustomerStatus.ACTIVE };
+
+const dailyOrder = (status: OrderStatus) => ({
+  status,
+  startDate: "2025-06-02T00:00:00.000Z",
+  frequency: Frequency.DAILY,
+  customer: activeCustomer,
+});
+
+// Wednesdays from June 4, 2025
+const weeklyOrder = (customer: object) => ({
+  startDate: "2025-06-04T00:00:00.000Z",
+  frequency: Frequency.WEEKLY,
+  customer: { status: CustomerStatus.ON_VACATION, ...customer },
+});
+
+const vacation = {
+  vacationStartDate: "2025-06-09T00:00:00.000Z",
+  vacationEndDate: "2025-06-13T00:00:00.000Z",
+};
+
+const summarize = (deliveries: ScheduledDelivery<ScheduledOrder>[]) =>
+  deliveries.map((delivery) => ({
+    date: toDateKey(delivery.date),
+    originalDate: toDateKey(delivery.originalDate),
+    vacation: delivery.vacation,
+  }));
+
+describe("vacation", () => {
+  it("only treats customers on vacation within their dates as away", () => {
+    const away = { status: CustomerStatus.ON_VACATION, ...vacation };
+
+    expect(isOnVacation(away, new Date(2025, 5, 8))).toBe(false);
+    expect(isOnVacation(away, new Date(2025, 5, 11))).toBe(true);
+    expect(isOnVacation(away, new Date(2025, 5, 14))).toBe(false);
+    expect(
+      isOnVacation(
+        { ...away, status: CustomerStatus.ACTIVE },
+        new Date(2025, 5, 11)
+      )
+    ).toBe(false);
+  });
+
+  it("flags deliveries during a vacation as skipped", () => {
+    const orders = [weeklyOrder(vacation)];
+
+    expect(
+      summarize(
+        getDeliveriesOn(orders, new Date(2025, 5, 11), VacationPolicy.SKIP)
+      )
+    ).toEqual([
+      {
+        date: "2025-06-11",
+        originalDate: "2025-06-11",
+        vacation: VacationOutcome.SKIPPED,
+      },
+    ]);
+    expect(
+      getDeliveriesOn(orders, new Date(2025, 5, 16), VacationPolicy.SKIP)
+    ).toEqual([]);
+  });
+
+  it("moves missed deliveries to the first working day after a vacation", () => {
+    const orders = [weeklyOrder(vacation)];
+
+    expect(
+      getDeliveriesOn(orders, new Date(2025, 5, 11), VacationPolicy.RESCHEDULE)
+    ).toEqual([]);
+    expect(
+      summarize(
+        getDeliveriesOn(
+          orders,
+          new Date(2025, 5, 16),
+          VacationPolicy.RESCHEDULE
+        )
+      )
+    ).toEqual([
+      {
+        date: "2025-06-16",
+        originalDate: "2025-06-11",
+        vacation: VacationOutcome.RESCHEDULED,
+      },
+    ]);
+  });
+
+  it("can only skip deliveries during open-ended vacations", () => {
+    const order = weeklyOrder({
+      vacationStartDate: vacation.vacationStartDate,
+    });
+
+    expect(
+      summarize(
+        getDeliveriesOn(
+          [order],
+          new Date(2025, 5, 11),
+          VacationPolicy.RESCHEDULE
+        )
+      )
+    ).toEqual([
+      {
+        date: "2025-06-11",
+        originalDate: "2025-06-11",
+        vacation: VacationOutcome.SKIPPED,
+      },
+    ]);
+    expect(
+      getNextDelivery(order, new Date(2025, 5, 10), VacationPolicy.RESCHEDULE)
+        ?.vacation
+    ).toBe(VacationOutcome.SKIPPED);
+  });
+
+  it("skips deliveries during vacations without a start date", () => {
+    const order = weeklyOrder({ vacationEndDate: vacation.vacationEndDate });
+
+    expect(
+      summarize(
+        getDeliveriesOn(
+          [order],
+          new Date(2025, 5, 11),
+          VacationPolicy.RESCHEDULE
+        )
+      )
+    ).toEqual([
+      {
+        date: "2025-06-11",
+        originalDate: "2025-06-11",
+        vacation: VacationOutcome.SKIPPED,
+      },
+    ]);
+    expect(
+      getDeliveriesOn([order], new Date(2025, 5, 16), VacationPolicy.RESCHEDULE)
+    ).toEqual([]);
+  });
+
+  it("reports the rescheduled date as the next delivery", () => {
+    const next = getNextDelivery(
+      weeklyOrder(vacation),
+      new Date(2025, 5, 10),
+      VacationPolicy.RESCHEDULE
+    );
+
+    expect(next && toDateKey(next.date)).toBe("2025-06-16");
+    expect(next && toDateKey(next.originalDate)).toBe("2025-06-11");
+  });
+
+  it("lists the deliveries a driver on vacation would miss", () => {
+    const driver = { status: CustomerStatus.ON_VACATION, ...vacation };
+    const [conflict] = getDriverConflicts(
+      driver,
+      [weeklyOrder({})],
+      new Date(2025, 5, 1)
+    );
+
+    expect(conflict.dates.map(toDateKey)).toEqual(["2025-06-11"]);
+  });
+
+  it("looks 90 days ahead for drivers with an open-ended vacation", () => {
+    const driver = {
+      status: CustomerStatus.ON_VACATION,
+      vacationStartDate: vacation.vacationStartDate,
+    };
+    const [conflict] = getDriverConflicts(
+      driver,
+      [weeklyOrder({})],
+      new Date(2025, 5, 1)
+    );
+
+    expect(toDateKey(conflict.dates[0])).toBe("2025-06-11");
+    expect(toDateKey(conflict.dates[conflict.dates.length - 1])).toBe(
+      "2025-08-27"
+    );
+  });
+
+  it("lets inactive drivers conflict with the next delivery of every order", () => {
+    const conflicts = getDriverConflicts(
+      { status: CustomerStatus.INACTIVE },
+      [weeklyOrder({})],
+      new Date(2025, 5, 5)
+    );
+
+    expect(conflicts.map((conflict) => conflict.dates.map(toDateKey))).toEqual([
+      ["2025-06-11"],
+    ]);
+  });
+
+  it("only delivers pending orders and orders in progress", () => {
+    const orders = Object.values(OrderStatus).map(dailyOrder);
+
+    expect(
+      getDeliveriesOn(orders, new Date(2025, 5, 10), VacationPolicy.SKIP).map(
+        (delivery) => delivery.order.status
+      )
+    ).toEqual([OrderStatus.PENDING, OrderStatus.IN_PROGRESS]);
+  });
+
+  it("has no next delivery for paused, completed or cancelled orders", () => {
+    [OrderStatus.PAUSED, OrderStatus.COMPLETED, OrderStatus.CANCELLED].forEach(
+      (status) =>
+        expect(
+          getNextDelivery(
+            dailyOrder(status),
+            new Date(2025, 5, 10),
+            VacationPolicy.SKIP
+          )
+        ).toBeNull()
+    );
+
+    const next = getNextDelivery(
+      dailyOrder(OrderStatus.PENDING),
+      new Date(2025, 5, 10),
+      VacationPolicy.SKIP
+    );
+    expect(next && toDateKey(next.date)).toBe("2025-06-10");
+  });
+});
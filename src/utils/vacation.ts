@@ -0,0 +1,235 @@
+import {
+  addDays,
+  differenceInCalendarDays,
+  isWeekend,
+  max,
+  startOfDay,
+} from "date-fns";
+import { CustomerStatus } from "../types/customer";
+import {
+  RecurringSchedule,
+  getNextOccurrence,
+  getOccurrences,
+  occursOn,
+  toLocalDay,
+} from "./recurrence";
+import { isDeliveringStatus } from "./orderStatus";
+
+export enum VacationPolicy {
+  SKIP = "skip",
+  RESCHEDULE = "reschedule",
+}
+
+export enum VacationOutcome {
+  SKIPPED = "skipped",
+  RESCHEDULED = "rescheduled",
+}
+
+export enum DriverUnavailability {
+  INACTIVE = "inactive",
+  ON_VACATION = "on_vacation",
+}
+
+// Customers and drivers share the same status values
+export interface VacationWindow {
+  status: string;
+  vacationStartDate?: string | null;
+  vacationEndDate?: string | null;
+}
+
+export interface ScheduledOrder extends RecurringSchedule {
+  customer: VacationWindow;
+  status?: string;
+}
+
+export interface ScheduledDelivery<T extends ScheduledOrder> {
+  order: T;
+  date: Date;
+  // The date the recurrence originally produced, differs from `date` when
+  // the delivery was moved out of a vacation window
+  originalDate: Date;
+  vacation?: VacationOutcome;
+}
+
+export interface DriverConflict<T> {
+  order: T;
+  dates: Date[];
+}
+
+// How far ahead to look for conflicts when a vacation has no end date
+const CONFLICT_HORIZON_DAYS = 90;
+
+/**
+ * A vacation is only active while the status says so. Missing start or end
+ * dates are treated as open-ended.
+ */
+export const isOnVacation = (window: VacationWindow, date: Date): boolean => {
+  if (window.status !== CustomerStatus.ON_VACATION) return false;
+
+  const day = startOfDay(date);
+  if (window.vacationStartDate && day < toLocalDay(window.vacationStartDate)) {
+    return false;
+  }
+  if (window.vacationEndDate && day > toLocalDay(window.vacationEndDate)) {
+    return false;
+  }
+  return true;
+};
+
+export const nextWorkingDayAfter = (date: Date): Date => {
+  let day = addDays(startOfDay(date), 1);
+  while (isWeekend(day)) {
+    day = addDays(day, 1);
+  }
+  return day;
+};
+
+// Rescheduling needs both ends to know which deliveries were missed, vacations
+// without a start or end date can only be skipped
+const getRescheduleDate = (window: VacationWindow): Date | null =>
+  window.vacationStartDate && window.vacationEndDate
+    ? nextWorkingDayAfter(toLocalDay(window.vacationEndDate))
+    : null;
+
+/**
+ * Returns the deliveries that fall on the given day once customer vacations
+ * are taken into account. Skipped deliveries are kept and flagged so the
+ * caller can decide whether to show or hide them. Paused, completed and
+ * cancelled orders are left out.
+ */
+export const getDeliveriesOn = <T extends ScheduledOrder>(
+  orders: T[],
+  date: Date,
+  policy: VacationPolicy
+): ScheduledDelivery<T>[] => {
+  const day = startOfDay(date);
+  const deliveries: ScheduledDelivery<T>[] = [];
+
+  orders.forEach((order) => {
+    const { customer } = order;
+    if (!isDeliveringStatus(order.status)) return;
+
+    if (occursOn(order, day)) {
+      if (!isOnVacation(customer, day)) {
+        deliveries.push({ order, date: day, originalDate: day });
+        return;
+      }
+      if (policy === VacationPolicy.SKIP || !getRescheduleDate(customer)) {
+        deliveries.push({
+          order,
+          date: day,
+          originalDate: day,
+          vacation: VacationOutcome.SKIPPED,
+        });
+        return;
+      }
+    }
+
+    if (policy !== VacationPolicy.RESCHEDULE || !customer.vacationStartDate) {
+      return;
+    }
+    const rescheduleDate = getRescheduleDate(customer);
+    if (!rescheduleDate || differenceInCalendarDays(rescheduleDate, day)) {
+      return;
+    }
+
+    // Everything missed during the vacation is delivered once, on the first
+    // working day after it
+    const [missed] = getOccurrences(
+      order,
+      toLocalDay(customer.vacationStartDate),
+      toLocalDay(customer.vacationEndDate!)
+    );
+    if (missed) {
+      deliveries.push({
+        order,
+        date: day,
+        originalDate: missed,
+        vacation: VacationOutcome.RESCHEDULED,
+      });
+    }
+  });
+
+  return deliveries;
+};
+
+/**
+ * Returns the next delivery of an order from the given day on, with the
+ * vacation policy applied to it.
+ */
+export const getNextDelivery = <T extends ScheduledOrder>(
+  order: T,
+  from: Date,
+  policy: VacationPolicy
+): ScheduledDelivery<T> | null => {
+  if (!isDeliveringStatus(order.status)) return null;
+
+  const next = getNextOccurrence(order, from);
+  if (!next) return null;
+
+  if (!isOnVacation(order.customer, next)) {
+    return { order, date: next, originalDate: next };
+  }
+
+  const rescheduleDate = getRescheduleDate(order.customer);
+  if (policy === VacationPolicy.RESCHEDULE && rescheduleDate) {
+    return {
+      order,
+      date: rescheduleDate,
+      originalDate: next,
+      vacation: VacationOutcome.RESCHEDULED,
+    };
+  }
+  return {
+    order,
+    date: next,
+    originalDate: next,
+    vacation: VacationOutcome.SKIPPED,
+  };
+};
+
+export const getDriverUnavailability = (
+  driver: VacationWindow,
+  date: Date
+): DriverUnavailability | null => {
+  if (driver.status === CustomerStatus.INACTIVE) {
+    return DriverUnavailability.INACTIVE;
+  }
+  if (isOnVacation(driver, date)) {
+    return DriverUnavailability.ON_VACATION;
+  }
+  return null;
+};
+
+/**
+ * Lists the orders a driver could not deliver from the given day on, with
+ * the affected delivery dates. Inactive drivers conflict with every order.
+ */
+export const getDriverConflicts = <T extends RecurringSchedule>(
+  driver: VacationWindow,
+  orders: T[],
+  from: Date
+): DriverConflict<T>[] => {
+  const day = startOfDay(from);
+
+  if (driver.status === CustomerStatus.INACTIVE) {
+    return orders.map((order) => {
+      const next = getNextOccurrence(order, day);
+      return { order, dates: next ? [next] : [] };
+    });
+  }
+  if (driver.status !== CustomerStatus.ON_VACATION) {
+    return [];
+  }
+
+  const start = driver.vacationStartDate
+    ? max([day, toLocalDay(driver.vacationStartDate)])
+    : day;
+  const end = driver.vacationEndDate
+    ? toLocalDay(driver.vacationEndDate)
+    : addDays(day, CONFLICT_HORIZON_DAYS);
+
+  return orders
+    .map((order) => ({ order, dates: getOccurrences(order, start, end) }))
+    .filter((conflict) => conflict.dates.length > 0);
+};